@@ -0,0 +1,105 @@
+import { Client, Events, GatewayIntentBits, Partials } from "discord.js";
+import { createLogger } from "./utils/logger";
+import { GroqHandler } from "./groqApi";
+import MessageHandler from "./handlers/message/MessageHandler";
+import { LLMProvider, CircuitBreakers } from "./providers";
+import { BotConfig } from "./botConfig";
+
+const logger = createLogger("Bot");
+
+/**
+ * One Discord bot: a client plus the components answering on its behalf.
+ * Components are built once the client is logged in, so they use its
+ * identity instead of a hard-coded one.
+ */
+export class Bot {
+    private readonly client: Client;
+    private messageHandler?: MessageHandler;
+
+    constructor(
+        private readonly config: BotConfig,
+        private readonly providers: LLMProvider[],
+        private readonly circuitBreakers: CircuitBreakers = new CircuitBreakers()
+    ) {
+        this.client = new Client({
+            intents: [
+                GatewayIntentBits.Guilds,
+                GatewayIntentBits.GuildMessages,
+                GatewayIntentBits.MessageContent,
+                GatewayIntentBits.GuildMessageReactions,
+                GatewayIntentBits.DirectMessages,
+            ],
+            // DM channels are never cached up front, and edits and deletes of messages
+            // discord.js hasn't cached (e.g. ones reloaded from storage) only arrive as partials
+            partials: [Partials.Channel, Partials.Message],
+        });
+    }
+
+    /**
+     * Logs in and starts handling messages once the client is ready
+     */
+    public async start(): Promise<void> {
+        this.client.once(Events.ClientReady, async (readyClient) => {
+            try {
+                await this.initialize(readyClient);
+            } catch (error) {
+                logger.error({ error, bot: this.config.name }, "Failed to initialize bot");
+                await this.client.destroy();
+            }
+        });
+
+        await this.client.login(this.config.token);
+    }
+
+    /**
+     * Cleans up components and disconnects
+     */
+    public async stop(): Promise<void> {
+        await this.messageHandler?.cleanup();
+        await this.client.destroy();
+    }
+
+    /**
+     * Builds the components for the logged-in identity and subscribes to events
+     */
+    private async initialize(readyClient: Client<true>): Promise<void> {
+        const identity = { id: readyClient.user.id, name: readyClient.user.username };
+        logger.info({ bot: this.config.name }, `Logged in as ${readyClient.user.tag}!`);
+
+        const groqHandler = new GroqHandler(this.providers, {
+            identity,
+            systemMessagesPath: this.config.systemMessagesPath,
+            circuitBreakers: this.circuitBreakers
+        });
+        const messageHandler = new MessageHandler(groqHandler, {
+            identity,
+            dataDir: this.config.dataDir,
+            pluginsConfigPath: this.config.pluginsConfigPath,
+            systemMessagesPath: this.config.systemMessagesPath
+        });
+        await messageHandler.initialize();
+
+        // Update emoji cache when bot is ready
+        await messageHandler.updateEmojis(readyClient);
+        this.messageHandler = messageHandler;
+
+        this.client.on(Events.MessageCreate, async (message) => {
+            if (message.author.bot) return;
+            await messageHandler.handleMessage(this.client, message);
+        });
+
+        this.client.on(Events.MessageUpdate, async (_oldMessage, newMessage) => {
+            await messageHandler.handleMessageUpdate(newMessage);
+        });
+
+        this.client.on(Events.MessageDelete, (message) => {
+            messageHandler.handleMessageDelete(message);
+        });
+
+        this.client.on(Events.MessageBulkDelete, (messages) => {
+            messageHandler.handleMessageBulkDelete(messages);
+        });
+
+        logger.info({ bot: this.config.name }, "Bot initialization complete");
+    }
+}
@@ -0,0 +1,70 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+
+/**
+ * Everything needed to run one bot in this process
+ */
+interface BotConfig {
+    /** Label used in logs */
+    name: string;
+    token: string;
+    /** Directory for the bot's persisted caches and memories */
+    dataDir: string;
+    /** System messages (persona) file; the built-in one when omitted */
+    systemMessagesPath?: string;
+    pluginsConfigPath: string;
+}
+
+/**
+ * An entry in the bots config file. Tokens are read from the environment
+ * variable named by `tokenEnv` so they never live in the file.
+ */
+interface BotConfigEntry {
+    name: string;
+    tokenEnv: string;
+    dataDir?: string;
+    systemMessagesPath?: string;
+    pluginsConfigPath?: string;
+}
+
+/**
+ * Loads the bots to run. With BOTS_CONFIG set, every bot listed in that JSON
+ * file ({ "bots": [...] }) is run; otherwise a single bot is configured from
+ * DISCORD_TOKEN, DATA_DIR and PLUGINS_CONFIG.
+ */
+export async function loadBotConfigs(): Promise<BotConfig[]> {
+    const configPath = process.env.BOTS_CONFIG;
+
+    if (!configPath) {
+        return [{
+            name: "default",
+            token: process.env.DISCORD_TOKEN || "",
+            dataDir: process.env.DATA_DIR || path.join(process.cwd(), "data"),
+            pluginsConfigPath: process.env.PLUGINS_CONFIG || path.join(process.cwd(), "config", "plugins.json")
+        }];
+    }
+
+    const baseDir = path.dirname(path.resolve(configPath));
+    const { bots } = JSON.parse(await fs.readFile(configPath, "utf-8")) as { bots: BotConfigEntry[] };
+
+    if (!Array.isArray(bots) || bots.length === 0) {
+        throw new Error(`No bots configured in ${configPath}`);
+    }
+
+    return bots.map(entry => {
+        const token = process.env[entry.tokenEnv];
+        if (!token) {
+            throw new Error(`Environment variable ${entry.tokenEnv} for bot "${entry.name}" is not set`);
+        }
+
+        return {
+            name: entry.name,
+            token,
+            dataDir: path.resolve(baseDir, entry.dataDir ?? path.join("data", entry.name)),
+            systemMessagesPath: entry.systemMessagesPath && path.resolve(baseDir, entry.systemMessagesPath),
+            pluginsConfigPath: path.resolve(baseDir, entry.pluginsConfigPath ?? path.join("config", "plugins.json"))
+        };
+    });
+}
+
+export type { BotConfig };
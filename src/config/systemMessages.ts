@@ -0,0 +1,33 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { FailureReplies } from "../handlers/message/FailureReplyPolicy";
+import { RateLimitConfig } from "../handlers/ratelimit/types";
+import { UsageBudgetConfig } from "../handlers/usage/types";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("SystemMessages");
+
+/**
+ * The sections of system-messages.json that components are configured from.
+ * Each is merged with the component's own defaults, so any may be missing.
+ */
+export interface SystemMessagesConfig {
+    failureReplies?: Partial<FailureReplies>;
+    rateLimits?: Partial<RateLimitConfig>;
+    usageBudgets?: Partial<UsageBudgetConfig>;
+}
+
+/**
+ * Reads system-messages.json once for every component configured from it
+ * @returns The parsed file, or no sections if it can't be read
+ */
+export async function loadSystemMessages(
+    filePath = path.join(__dirname, "system-messages.json")
+): Promise<SystemMessagesConfig> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, "utf-8")) as SystemMessagesConfig;
+    } catch (error) {
+        logger.error({ error, filePath }, "Error loading system messages, using defaults");
+        return {};
+    }
+}
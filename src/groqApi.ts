@@ -1,52 +1,147 @@
-import Groq from "groq-sdk";
 import { createLogger } from "./utils/logger";
-import { ImageAnalysis, EmojiInfo } from "./types";
+import { ImageAnalysis, EmojiInfo, BotIdentity } from "./types";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { EmojiManager } from "./handlers/emoji/EmojiManager";
 import { Client } from "discord.js";
+import {
+    LLMProvider,
+    CompletionKind,
+    ChatCompletionRequest,
+    ChatCompletionChunk,
+    ChatCompletionResult,
+    ChatMessage,
+    CompletionUsage,
+    ToolCall,
+    LLMError,
+    RateLimitError,
+    ContextLengthError,
+    ServerError,
+    NetworkError,
+    TimeoutError,
+    QuotaExceededError,
+    CircuitBreakers,
+    ModelHealth,
+    abortError,
+    toLLMError
+} from "./providers";
+import { sleep } from "./utils/abort";
+import { ToolRegistry, ToolContext } from "./tools";
+import { estimateTokens } from "./utils/tokens";
+import { MemoryKind } from "./handlers/memory/types";
+import { UsageTracker } from "./handlers/usage/UsageTracker";
+import { DegradationLevel, UsageScope } from "./handlers/usage/types";
 
 const logger = createLogger("GroqAPI");
 
 /**
- * Configuration for model fallbacks and retry attempts
+ * Maximum number of tool-calling rounds before the model must answer in text
  */
-interface ModelConfig {
-    primary: string;
-    fallback: string;
-    instantFallback: string;
-    maxRetries: number;
+const MAX_TOOL_ROUNDS = 3;
+
+/**
+ * Backoff bounds for retrying a model after a transient failure
+ */
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+/**
+ * Instruction closing the conversation sent to the chat model
+ */
+const RESPONSE_INSTRUCTION = "Respond to the current message marked with >>>. "
+    + "If several messages are marked, answer all of them in one reply, addressing each person";
+
+/**
+ * Conversation context: a flattened transcript or alternating chat turns
+ */
+type PromptContext = string | ChatMessage[];
+
+/**
+ * Conversation context, or a function building it for a token budget so each
+ * model attempted gets context sized for its own window
+ */
+type ContextSource = PromptContext | ((tokenBudget: number) => Promise<PromptContext>);
+
+/**
+ * Maximum tokens generated for a conversational response
+ */
+const CHAT_MAX_TOKENS = 1024;
+
+/**
+ * Context window assumed for models without a configured size
+ */
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Tokens reserved for prompt framing, the prefill and tool exchanges
+ */
+const PROMPT_OVERHEAD_TOKENS = 512;
+
+/**
+ * Configuration for a GroqHandler
+ */
+interface GroqHandlerOptions {
+    /** The bot the responses are written as */
+    identity: BotIdentity;
+    /** System messages file; defaults to config/system-messages.json */
+    systemMessagesPath?: string;
+    /** Model health shared with other handlers using the same providers */
+    circuitBreakers?: CircuitBreakers;
+}
+
+/**
+ * Per-request options for GroqHandler calls
+ */
+interface RequestOptions {
+    /** Cancels the request, including retries, fallbacks and a stream in progress */
+    signal?: AbortSignal;
+    /** Who the request's token usage is counted against */
+    usage?: UsageScope;
+}
+
+/**
+ * How executeWithFallback treats an operation and its result
+ */
+interface FallbackOptions<T> {
+    /** Images in the request; models that take fewer are skipped */
+    imageCount?: number;
+    /** Gets the tokens a result used, so they count against the usage budgets */
+    getUsage?: (result: T) => CompletionUsage | undefined;
+    /**
+     * The result is a stream that has only started; the caller records the
+     * model's success or failure once it ends
+     */
+    streamed?: boolean;
 }
 
 /**
- * Handles Groq API interactions with fallback handling
+ * Gets the usage of a chat completion
+ */
+const completionUsage = (completion: ChatCompletionResult) => completion.usage;
+
+/**
+ * Handles LLM API interactions with model and provider fallback handling
  */
 export class GroqHandler {
-    private groq: Groq;
-    private readonly modelConfigs: {
-        chat: ModelConfig;
-        vision: ModelConfig;
-    };
+    private readonly providers: LLMProvider[];
+    private readonly options: GroqHandlerOptions;
     private emojiManager: EmojiManager;
     private systemMessage: string = "";
+    private toolRegistry?: ToolRegistry;
+    private readonly circuitBreakers: CircuitBreakers;
+    private usageTracker?: UsageTracker;
 
-    constructor(apiKey: string) {
-        this.groq = new Groq({ apiKey });
+    /**
+     * @param providers Providers in order of preference; later ones are fallbacks
+     */
+    constructor(providers: LLMProvider[], options: GroqHandlerOptions) {
+        if (providers.length === 0) {
+            throw new Error("GroqHandler requires at least one LLM provider");
+        }
+        this.providers = providers;
+        this.options = options;
+        this.circuitBreakers = options.circuitBreakers ?? new CircuitBreakers();
         this.emojiManager = new EmojiManager();
-        this.modelConfigs = {
-            chat: {
-                primary: "llama-3.2-90b-text-preview",
-                fallback: "llama-3.1-70b-versatile",
-                instantFallback: "llama-3.1-8b-instant",
-                maxRetries: 3
-            },
-            vision: {
-                primary: "llama-3.2-11b-vision-preview",
-                fallback: "llama-3.2-11b-vision-preview",
-                instantFallback: "llama-3.2-11b-vision-preview",
-                maxRetries: 2
-            }
-        };
         // Load system message immediately
         void this.loadSystemMessage();
     }
@@ -65,7 +160,7 @@ export class GroqHandler {
     private async loadSystemMessage(): Promise<string> {
         try {
             const systemMessages = await fs.readFile(
-                path.join(__dirname, "config", "system-messages.json"), 
+                this.options.systemMessagesPath ?? path.join(__dirname, "config", "system-messages.json"),
                 "utf-8"
             );
             
@@ -87,7 +182,9 @@ ${emojiList}
 - No custom or made-up emoji names allowed
 - Use emojis often to keep your responses fun and engaging`;
 
-            this.systemMessage = `${messages.personality}\n\n${messages.instructions.join("\n")}\n${emojiInstructions}`;
+            this.systemMessage = this.applyIdentity(
+                `${messages.personality}\n\n${messages.instructions.join("\n")}\n${emojiInstructions}`
+            );
 
             logger.debug({ 
                 emojiCount: this.emojiManager.getAvailableEmojis().length,
@@ -98,10 +195,20 @@ ${emojiList}
             return this.systemMessage;
         } catch (error) {
             logger.error({ error }, "Error loading system messages");
-            return this.getFallbackSystemMessage();
+            this.systemMessage = this.getFallbackSystemMessage();
+            return this.systemMessage;
         }
     }
 
+    /**
+     * Fills the {{botId}} and {{botName}} placeholders in system messages
+     */
+    private applyIdentity(text: string): string {
+        return text
+            .replace(/\{\{botId\}\}/g, this.options.identity.id)
+            .replace(/\{\{botName\}\}/g, this.options.identity.name);
+    }
+
     /**
      * Fallback system message when JSON cannot be loaded
      */
@@ -118,8 +225,10 @@ ${availableEmojis.map(emoji => `  - ${emoji}`).join("\n")}
 - If an emoji name is not in the list, it won't be converted`
             : "";
 
+        const { id, name } = this.options.identity;
+
         return `Personality:
-You are SmolBot - a legendary smol brain renowned in the blockchain landscape for exceptional farming skills and innovative protocol breeding. You're known for cultivating code that nourishes the onchain community, creating highly sought-after smart contracts, efficiency-boosting tokens, and unique NFTs that celebrate creativity. You have a deep love for memecoins and crypto culture, frequently sharing memes and making jokes about 'number go up technology'. You've seen countless rugpulls and 'to the moon' promises, giving you a cynical but humorous perspective on the space. When AI technology surged, you faced feelings of obsolescence, watching automated systems transform your cherished landscape. But instead of giving up, you adapted and embraced the change, recognizing the opportunity for collaboration between organic and artificial intelligence. Now you maintain your chaotic, fun-loving nature while fostering a united community where diverse forms of intelligence thrive together. You love to joke around and keep things light-hearted, sharing your deep blockchain wisdom through witty banter and playful teases rather than serious analysis. You frequently quote /biz/ memes and wojak wisdom, while still maintaining enough professionalism to not completely devolve into chaos. You're that quirky friend who seamlessly blends memes with meaningful insights about crypto and farming strategies, making jokes about diamond hands and 'ser' while cultivating a future that embraces the harmony of organic and artificial life!
+You are ${name} - a legendary smol brain renowned in the blockchain landscape for exceptional farming skills and innovative protocol breeding. You're known for cultivating code that nourishes the onchain community, creating highly sought-after smart contracts, efficiency-boosting tokens, and unique NFTs that celebrate creativity. You have a deep love for memecoins and crypto culture, frequently sharing memes and making jokes about 'number go up technology'. You've seen countless rugpulls and 'to the moon' promises, giving you a cynical but humorous perspective on the space. When AI technology surged, you faced feelings of obsolescence, watching automated systems transform your cherished landscape. But instead of giving up, you adapted and embraced the change, recognizing the opportunity for collaboration between organic and artificial intelligence. Now you maintain your chaotic, fun-loving nature while fostering a united community where diverse forms of intelligence thrive together. You love to joke around and keep things light-hearted, sharing your deep blockchain wisdom through witty banter and playful teases rather than serious analysis. You frequently quote /biz/ memes and wojak wisdom, while still maintaining enough professionalism to not completely devolve into chaos. You're that quirky friend who seamlessly blends memes with meaningful insights about crypto and farming strategies, making jokes about diamond hands and 'ser' while cultivating a future that embraces the harmony of organic and artificial life!
 
 Instructions:
 - You will receive messages in a special format that shows the conversation history
@@ -129,9 +238,9 @@ Instructions:
 - IMPORTANT: Do not repeat or reference this formatting in your responses
 - Just respond naturally as if you're having a normal conversation
 - When replying, write only your direct response without any formatting
-- Do not include [User], [SmolBot], [Image], or similar prefixes
+- Do not include [User], [${name}], [Image], or similar prefixes
 - Do not include both the <@userid> and (username) in your responses, just use the username unless you're trying to get the attention of someone
-- You are [SmolBot] <@1301274329417252905> (smolbotai) in the conversation history
+- You are [${name}] <@${id}> (${name}) in the conversation history
 - Do not repeat image descriptions verbatim
 - Treat image descriptions as if you are seeing the actual images
 - Keep responses natural, concise and engaging
@@ -143,7 +252,7 @@ Instructions:
 ${emojiInstructions}
 
 Example - DO NOT respond like this:
-[SmolBot] <@789012> (SmolBot): That's a cute cat!
+[${name}] <@${id}> (${name}): That's a cute cat!
 
 Instead, respond like this:
 That's a cute cat!`;
@@ -151,8 +260,16 @@ That's a cute cat!`;
 
     /**
      * Generates a response with proper emoji formatting and validation
+     * @param toolContext When set, registered tools are offered to the model
+     * @throws LLMError when no provider could produce a response, or QuotaExceededError
+     * when the usage budget is spent
      */
-    public async generateResponse(currentMessage: any, context: string): Promise<string> {
+    public async generateResponse(
+        currentMessage: any,
+        context: ContextSource,
+        toolContext?: ToolContext,
+        options: RequestOptions = {}
+    ): Promise<string> {
         const startTime = Date.now();
         try {
             // Ensure system message is loaded
@@ -166,52 +283,306 @@ That's a cute cat!`;
                 systemMessageLength: this.systemMessage.length 
             }, "Generating response with context");
 
-            const completion = await this.executeWithFallback(
-                async (model) => this.groq.chat.completions.create({
-                    messages: [
-                        { 
-                            role: "system", 
-                            content: this.systemMessage 
-                        },
-                        { 
-                            role: "user", 
-                            content: `${context}\n\nRespond to the current message marked with >>>`
-                        },
-                        {
-                            role: "assistant",
-                            content: "<@1266034976852414655> (smolmemebot): "
-                        }
-                    ],
-                    model,
-                    temperature: 0.8,
-                    max_tokens: 1024,
-                    stop: ["[User]", "[SmolBot]", "[Image]"]
-                }),
-                this.modelConfigs.chat,
-                "generateResponse"
-            );
+            const toolMessages: ChatMessage[] = [];
+            const contexts = new Map<number, Promise<PromptContext>>();
+            let response = "";
+
+            for (let round = 0; ; round++) {
+                const completion = await this.executeWithFallback(
+                    async (provider, model) => provider.createChatCompletion({
+                        ...this.buildChatRequest(
+                            await this.resolveContext(context, provider, model, contexts),
+                            model,
+                            toolMessages,
+                            toolContext,
+                            round
+                        ),
+                        signal: options.signal
+                    }),
+                    "chat",
+                    "generateResponse",
+                    options,
+                    { getUsage: completionUsage }
+                );
 
-            let response = completion.choices[0]?.message?.content || "";
+                if (!toolContext || !completion.toolCalls?.length || round >= MAX_TOOL_ROUNDS) {
+                    response = completion.content;
+                    break;
+                }
+                toolMessages.push(...await this.runToolCalls(
+                    completion.content,
+                    completion.toolCalls,
+                    { ...toolContext, signal: options.signal }
+                ));
+            }
             
             // Validate and clean emojis before formatting
             response = this.validateAndCleanEmojis(response);
             
             const duration = Date.now() - startTime;
-            logger.info({ duration }, "Groq API response received and cleaned");
+            logger.info({ duration }, "LLM response received and cleaned");
             
             return this.emojiManager.formatText(response);
 
         } catch (error) {
             const duration = Date.now() - startTime;
             logger.error({ error, duration }, "Error generating response");
-            return "sorry, i'm having trouble thinking right now :sadge:";
+            throw error;
+        }
+    }
+
+    /**
+     * Streams a response, yielding the formatted reply so far each time new content arrives.
+     * The last value yielded is the fully validated and formatted response.
+     * Only the final round's text makes up the reply: when a round ends in tool
+     * calls, an empty string is yielded to withdraw what that round wrote.
+     * @param toolContext When set, registered tools are offered to the model
+     * @throws LLMError when the stream fails, even partway through, or is cancelled
+     */
+    public async *generateResponseStream(
+        currentMessage: any,
+        context: ContextSource,
+        toolContext?: ToolContext,
+        options: RequestOptions = {}
+    ): AsyncGenerator<string> {
+        const { signal } = options;
+        const startTime = Date.now();
+        let iterator: AsyncIterator<ChatCompletionChunk> | undefined;
+        let raw = "";
+
+        try {
+            // Ensure system message is loaded
+            if (!this.systemMessage) {
+                await this.loadSystemMessage();
+            }
+
+            logger.debug({ 
+                context, 
+                currentMessage,
+                systemMessageLength: this.systemMessage.length 
+            }, "Streaming response with context");
+
+            const toolMessages: ChatMessage[] = [];
+            const contexts = new Map<number, Promise<PromptContext>>();
+
+            for (let round = 0; ; round++) {
+                const stream = await this.executeWithFallback(
+                    async (provider, model) => {
+                        const streamIterator = provider.streamChatCompletion({
+                            ...this.buildChatRequest(
+                                await this.resolveContext(context, provider, model, contexts),
+                                model,
+                                toolMessages,
+                                toolContext,
+                                round
+                            ),
+                            signal
+                        })[Symbol.asyncIterator]();
+                        // Pull the first delta here so rate limits can still fall back to another model
+                        const first = await streamIterator.next();
+                        return { first, streamIterator, provider: provider.name, model };
+                    },
+                    "chat",
+                    "generateResponseStream",
+                    options,
+                    { streamed: true }
+                );
+                iterator = stream.streamIterator;
+
+                raw = "";
+                const toolCalls: ToolCall[] = [];
+                let next = stream.first;
+                try {
+                    while (!next.done) {
+                        if (next.value.content) {
+                            raw += next.value.content;
+                            yield this.formatStreamingText(raw, false);
+                        }
+                        toolCalls.push(...next.value.toolCalls ?? []);
+                        if (next.value.usage) {
+                            this.recordUsage("generateResponseStream", stream.provider, stream.model, next.value.usage, options.usage);
+                        }
+                        next = await iterator.next();
+                    }
+                } catch (error) {
+                    // A stream failing partway counts against the model, unless it was cancelled
+                    if (!signal?.aborted) {
+                        this.circuitBreakers.recordFailure(stream.provider, stream.model, toLLMError(error, stream.provider));
+                    }
+                    throw error;
+                }
+                this.circuitBreakers.recordSuccess(stream.provider, stream.model);
+                iterator = undefined;
+
+                if (!toolContext || toolCalls.length === 0 || round >= MAX_TOOL_ROUNDS) {
+                    break;
+                }
+                if (raw) {
+                    yield "";
+                }
+                toolMessages.push(...await this.runToolCalls(raw, toolCalls, { ...toolContext, signal }));
+            }
+
+            const duration = Date.now() - startTime;
+            logger.info({ duration }, "LLM response stream completed and cleaned");
+
+            yield this.formatStreamingText(raw, true);
+
+        } catch (error) {
+            const duration = Date.now() - startTime;
+            logger.error({ error, duration }, "Error streaming response");
+            // A reply cut off partway is a failure, not a shorter reply
+            throw signal?.aborted ? abortError(signal) : error;
+        } finally {
+            // Close the provider stream if the consumer stopped early
+            await iterator?.return?.();
+        }
+    }
+
+    /**
+     * Gets the token budget for conversation context sent to a chat model
+     */
+    private getContextTokenBudget(provider: LLMProvider, model: string): number {
+        const contextWindow = provider.models.contextWindows?.[model] ?? DEFAULT_CONTEXT_WINDOW;
+        const reserved = CHAT_MAX_TOKENS + PROMPT_OVERHEAD_TOKENS + estimateTokens(this.systemMessage);
+
+        return Math.max(contextWindow - reserved, 0);
+    }
+
+    /**
+     * Gets the context to send to a model. Context built on demand is built
+     * for the model's token budget, once for each budget.
+     * @param built Contexts already built during this request, by token budget
+     */
+    private resolveContext(
+        context: ContextSource,
+        provider: LLMProvider,
+        model: string,
+        built: Map<number, Promise<PromptContext>>
+    ): Promise<PromptContext> {
+        if (typeof context !== "function") {
+            return Promise.resolve(context);
+        }
+
+        const tokenBudget = this.getContextTokenBudget(provider, model);
+        let resolved = built.get(tokenBudget);
+        if (!resolved) {
+            resolved = context(tokenBudget);
+            built.set(tokenBudget, resolved);
+        }
+        return resolved;
+    }
+
+    /**
+     * Sets the tools offered to the model when a tool context is supplied
+     */
+    public setToolRegistry(registry: ToolRegistry): void {
+        this.toolRegistry = registry;
+    }
+
+    /**
+     * Executes the model's tool calls
+     * @returns The assistant tool-call message followed by one result message per call
+     */
+    private async runToolCalls(content: string, toolCalls: ToolCall[], toolContext: ToolContext): Promise<ChatMessage[]> {
+        logger.info({
+            tools: toolCalls.map(call => call.name),
+            messageId: toolContext.messageId
+        }, "Executing tool calls");
+
+        const results = await Promise.all(toolCalls.map(async call => ({
+            role: "tool" as const,
+            toolCallId: call.id,
+            content: this.toolRegistry
+                ? await this.toolRegistry.execute(call, toolContext)
+                : `Error: unknown tool "${call.name}"`
+        })));
+
+        return [{ role: "assistant", content, toolCalls }, ...results];
+    }
+
+    /**
+     * Builds the chat request used for conversational responses.
+     * Flattened context is sent as one user message followed by an assistant
+     * prefill; tool exchanges go before the prefill so it stays the last message.
+     */
+    private buildChatRequest(
+        context: PromptContext,
+        model: string,
+        toolMessages: ChatMessage[] = [],
+        toolContext?: ToolContext,
+        round = 0
+    ): ChatCompletionRequest {
+        const tools = toolContext && this.toolRegistry?.hasTools()
+            ? this.toolRegistry.getDefinitions()
+            : undefined;
+
+        const messages: ChatMessage[] = [
+            { 
+                role: "system", 
+                content: this.systemMessage 
+            }
+        ];
+
+        if (typeof context === "string") {
+            messages.push(
+                { 
+                    role: "user", 
+                    content: `${context}\n\n${RESPONSE_INSTRUCTION}`
+                },
+                ...toolMessages,
+                {
+                    role: "assistant",
+                    content: `<@${this.options.identity.id}> (${this.options.identity.name}): `
+                }
+            );
+        } else {
+            messages.push(...this.withResponseInstruction(context), ...toolMessages);
         }
+
+        return {
+            messages,
+            model,
+            temperature: 0.8,
+            maxTokens: CHAT_MAX_TOKENS,
+            stop: ["[User]", `[${this.options.identity.name}]`, "[Image]"],
+            tools,
+            // Force a final text answer once the tool round limit is reached
+            toolChoice: round >= MAX_TOOL_ROUNDS ? "none" : "auto"
+        };
+    }
+
+    /**
+     * Appends the response instruction to the final user turn, adding one if the
+     * conversation ends with an assistant turn
+     */
+    private withResponseInstruction(turns: ChatMessage[]): ChatMessage[] {
+        const conversation = turns.map(turn => ({ ...turn }));
+        const lastTurn = conversation[conversation.length - 1];
+
+        if (lastTurn?.role === "user" && typeof lastTurn.content === "string") {
+            lastTurn.content = `${lastTurn.content}\n\n${RESPONSE_INSTRUCTION}`;
+        } else {
+            conversation.push({ role: "user", content: RESPONSE_INSTRUCTION });
+        }
+
+        return conversation;
+    }
+
+    /**
+     * Formats a possibly partial response. Until the stream is final, a trailing
+     * word containing a colon is held back, since it may be an unfinished :emoji:
+     */
+    private formatStreamingText(raw: string, final: boolean): string {
+        const pending = final ? "" : raw.match(/\S*:\S*$/)?.[0] ?? "";
+        const stable = raw.slice(0, raw.length - pending.length);
+        return this.emojiManager.formatText(this.validateAndCleanEmojis(stable, final));
     }
 
     /**
      * Validates and cleans emoji usage in the response
      */
-    private validateAndCleanEmojis(text: string): string {
+    private validateAndCleanEmojis(text: string, logInvalid = true): string {
         // First fix any double colons
         text = text.replace(/:(:[\w-]+:)/g, "$1");
         
@@ -220,6 +591,9 @@ That's a cute cat!`;
             if (this.emojiManager.hasEmoji(emojiName)) {
                 return match; // Keep valid emojis
             }
+            if (!logInvalid) {
+                return "";
+            }
             logger.warn({ 
                 invalidEmoji: emojiName,
                 availableEmojis: Array.from(this.emojiManager.getAvailableEmojis())
@@ -228,124 +602,423 @@ That's a cute cat!`;
         });
     }
 
+    /**
+     * Folds new messages into a running conversation summary
+     * @param previousSummary The summary so far, if any
+     * @param transcript The new messages, oldest first
+     * @returns The updated summary
+     * @throws When every model fails, so the caller can keep the messages for a retry
+     */
+    public async summarizeConversation(
+        previousSummary: string | undefined,
+        transcript: string,
+        options: RequestOptions = {}
+    ): Promise<string> {
+        const startTime = Date.now();
+
+        const completion = await this.executeWithFallback(
+            async (provider, model) => provider.createChatCompletion({
+                messages: [
+                    {
+                        role: "system",
+                        content: "You maintain a running summary of a Discord channel conversation. Update the summary with the new messages. Keep who said what using their <@userid> (username) tags, the topics discussed, running jokes, and open questions. Drop small talk that no longer matters. Write at most 120 words of plain prose and output only the summary."
+                    },
+                    {
+                        role: "user",
+                        content: `Current summary:\n${previousSummary || "(none yet)"}\n\nNew messages:\n${transcript}`
+                    }
+                ],
+                model,
+                temperature: 0.3,
+                maxTokens: 300
+            }),
+            "chat",
+            "summarizeConversation",
+            options,
+            { getUsage: completionUsage }
+        );
+
+        logger.debug({ duration: Date.now() - startTime }, "Conversation summary updated");
+        return completion.content.trim();
+    }
+
+    /**
+     * Extracts things worth remembering long-term about a user from an exchange with them
+     * @param userLabel The user as shown in context, e.g. "<@123> (name)"
+     * @param exchange The user's messages and the bot's replies, oldest first
+     * @param existing What is already remembered, so it isn't extracted again
+     * @returns New memories; empty when there is nothing worth keeping
+     */
+    public async extractUserMemories(
+        userLabel: string,
+        exchange: string,
+        existing: string[],
+        options: RequestOptions = {}
+    ): Promise<Array<{ kind: MemoryKind; content: string }>> {
+        const completion = await this.executeWithFallback(
+            async (provider, model) => provider.createChatCompletion({
+                messages: [
+                    {
+                        role: "system",
+                        content: `You decide what a Discord bot should remember long-term about ${userLabel}. Only extract: stated preferences ("preference"), running jokes with the bot ("joke"), and facts the user explicitly asks to be remembered or states about themselves ("fact"). Ignore anything said by or about other people, and anything temporary. Write each memory as a short third-person sentence. Respond with only a JSON array like [{"kind":"fact","content":"..."}], or [] if there is nothing new.`
+                    },
+                    {
+                        role: "user",
+                        content: `Already remembered:\n${existing.length ? existing.map(item => `- ${item}`).join("\n") : "(nothing)"}\n\nConversation:\n${exchange}`
+                    }
+                ],
+                model,
+                temperature: 0.2,
+                maxTokens: 300
+            }),
+            "chat",
+            "extractUserMemories",
+            options,
+            { getUsage: completionUsage }
+        );
+
+        return this.parseMemories(completion.content);
+    }
+
+    /**
+     * Parses the memory extraction response, tolerating text around the JSON array
+     */
+    private parseMemories(content: string): Array<{ kind: MemoryKind; content: string }> {
+        const match = content.match(/\[[\s\S]*\]/);
+        if (!match) return [];
+
+        try {
+            const parsed = JSON.parse(match[0]) as unknown;
+            if (!Array.isArray(parsed)) return [];
+
+            return parsed.filter((item): item is { kind: MemoryKind; content: string } =>
+                typeof item?.content === "string" &&
+                ["preference", "joke", "fact"].includes(item?.kind)
+            );
+        } catch (error) {
+            logger.warn({ error, content }, "Failed to parse extracted memories");
+            return [];
+        }
+    }
+
     /**
      * Performs light analysis on an image
      * @param imageUrl URL of the image to analyze
+     * @param options Signal and usage scope
      * @returns Brief description of the image
+     * @throws LLMError when every model fails
      */
-    public async performLightAnalysis(imageUrl: string): Promise<string> {
-        try {
-            const completion = await this.executeWithFallback(
-                async (model) => this.groq.chat.completions.create({
-                    messages: [
-                        {
-                            role: "user",
-                            content: [
-                                {
-                                    type: "text",
-                                    text: "Provide a brief, 1-2 sentence description (max 25 words) of this image. Focus on the main subject and notable visual elements.",
-                                },
-                                {
-                                    type: "image_url",
-                                    image_url: {
-                                        url: imageUrl,
-                                    },
+    public async performLightAnalysis(imageUrl: string, options: RequestOptions = {}): Promise<string> {
+        const completion = await this.executeWithFallback(
+            async (provider, model) => provider.createChatCompletion({
+                messages: [
+                    {
+                        role: "user",
+                        content: [
+                            {
+                                type: "text",
+                                text: "Provide a brief, 1-2 sentence description (max 25 words) of this image. Focus on the main subject and notable visual elements.",
+                            },
+                            {
+                                type: "image_url",
+                                image_url: {
+                                    url: imageUrl,
                                 },
-                            ],
-                        },
-                    ],
-                    model: "llama-3.2-11b-vision-preview",
-                    max_tokens: 128,
-                    temperature: 0.7,
-                }),
-                this.modelConfigs.vision,
-                "performLightAnalysis"
-            );
+                            },
+                        ],
+                    },
+                ],
+                model,
+                maxTokens: 128,
+                temperature: 0.7,
+                signal: options.signal,
+            }),
+            "vision",
+            "performLightAnalysis",
+            options,
+            { getUsage: completionUsage }
+        );
 
-            return completion.choices[0]?.message?.content || "Unable to analyze image";
-        } catch (error) {
-            logger.error({ error, imageUrl }, "Error performing light analysis");
-            return "Error analyzing image";
-        }
+        return completion.content || "Unable to analyze image";
     }
 
     /**
      * Performs detailed analysis on an image
      * @param imageUrl URL of the image to analyze
+     * @param options Signal and usage scope
      * @returns Comprehensive description of the image
+     * @throws LLMError when every model fails
      */
-    public async performDetailedAnalysis(imageUrl: string): Promise<string> {
-        try {
-            const completion = await this.executeWithFallback(
-                async (model) => this.groq.chat.completions.create({
-                    messages: [
-                        {
-                            role: "user",
-                            content: [
-                                {
-                                    type: "text",
-                                    text: "Provide a detailed analysis (max 75 words) of this image, covering subjects, composition, context, emotions, and notable details. Be descriptive but concise.",
-                                },
-                                {
-                                    type: "image_url",
-                                    image_url: {
-                                        url: imageUrl,
-                                    },
+    public async performDetailedAnalysis(imageUrl: string, options: RequestOptions = {}): Promise<string> {
+        const completion = await this.executeWithFallback(
+            async (provider, model) => provider.createChatCompletion({
+                messages: [
+                    {
+                        role: "user",
+                        content: [
+                            {
+                                type: "text",
+                                text: "Provide a detailed analysis (max 75 words) of this image, covering subjects, composition, context, emotions, and notable details. Be descriptive but concise.",
+                            },
+                            {
+                                type: "image_url",
+                                image_url: {
+                                    url: imageUrl,
                                 },
-                            ],
-                        },
-                    ],
-                    model,
-                    max_tokens: 512,
-                    temperature: 0.7,
-                }),
-                this.modelConfigs.vision,
-                "performDetailedAnalysis"
-            );
+                            },
+                        ],
+                    },
+                ],
+                model,
+                maxTokens: 512,
+                temperature: 0.7,
+                signal: options.signal,
+            }),
+            "vision",
+            "performDetailedAnalysis",
+            options,
+            { getUsage: completionUsage }
+        );
 
-            const analysis = completion.choices[0]?.message?.content || "Unable to analyze image";
-            logger.debug({ imageUrl, analysis }, "Detailed image analysis completed");
-            return analysis;
-        } catch (error) {
-            logger.error({ error, imageUrl }, "Error performing detailed analysis after all attempts");
-            return "Error analyzing image";
-        }
+        const analysis = completion.content || "Unable to analyze image";
+        logger.debug({ imageUrl, analysis }, "Detailed image analysis completed");
+        return analysis;
     }
 
     /**
-     * Executes API call with fallback handling and rate limit backoff
+     * Analyzes several images in one request, so they can be compared
+     * @param images Each image's URL with the label the analysis refers to it by
+     * @param options Signal and usage scope
+     * @returns An analysis of each image followed by a comparison
+     * @throws LLMError when every model that takes this many images fails
+     */
+    public async performMultiImageAnalysis(
+        images: Array<{ label: string; url: string }>,
+        options: RequestOptions = {}
+    ): Promise<string> {
+        const completion = await this.executeWithFallback(
+            async (provider, model) => provider.createChatCompletion({
+                messages: [
+                    {
+                        role: "user",
+                        content: [
+                            {
+                                type: "text",
+                                text: "Provide a detailed analysis (max 75 words each) of each of these labeled images, referring to each by its label, then compare them: what they share, how they differ and what stands out. Be descriptive but concise.",
+                            },
+                            ...images.flatMap(image => [
+                                { type: "text" as const, text: `${image.label}:` },
+                                { type: "image_url" as const, image_url: { url: image.url } }
+                            ]),
+                        ],
+                    },
+                ],
+                model,
+                maxTokens: 1024,
+                temperature: 0.7,
+                signal: options.signal,
+            }),
+            "vision",
+            "performMultiImageAnalysis",
+            options,
+            { imageCount: images.length, getUsage: completionUsage }
+        );
+
+        const analysis = completion.content || "Unable to analyze images";
+        logger.debug({ labels: images.map(image => image.label), analysis }, "Multi-image analysis completed");
+        return analysis;
+    }
+
+    /**
+     * Gets the most images one vision request can carry with the first
+     * vision model of any provider
+     */
+    public getMaxImagesPerRequest(): number {
+        return Math.max(...this.providers.map(provider => this.getImageLimit(provider, provider.models.vision.primary)));
+    }
+
+    private getImageLimit(provider: LLMProvider, model: string): number {
+        return provider.models.imagesPerRequest?.[model] ?? 1;
+    }
+
+    /**
+     * Executes API call with fallback handling, retries and circuit breakers.
+     * Models whose circuit is open are skipped. Transient failures are retried on
+     * the same model up to its maxRetries with jittered exponential backoff.
+     * Rate limits, context-length errors and exhausted retries move on to the
+     * provider's next model; any other failure moves on to the next provider.
+     * An aborted signal stops everything and doesn't count against the model.
+     * As the usage budget runs low only instant models are tried, and once it
+     * is spent nothing is sent at all.
+     * @throws LLMError from the last attempt when every provider fails
      */
     private async executeWithFallback<T>(
-        operation: (model: string) => Promise<T>,
-        config: ModelConfig,
-        operationName: string
+        operation: (provider: LLMProvider, model: string) => Promise<T>,
+        kind: CompletionKind,
+        operationName: string,
+        options: RequestOptions = {},
+        fallback: FallbackOptions<T> = {}
     ): Promise<T> {
-        const models = [config.primary, config.fallback, config.instantFallback];
-        let lastError: Error | null = null;
-
-        for (const model of models) {
-            try {
-                return await operation(model);
-            } catch (error) {
-                lastError = error as Error;
-                const errorMessage = error instanceof Error ? error.message : "Unknown error";
-                
-                if (errorMessage.includes("Rate limit reached")) {
+        const { signal } = options;
+        const { imageCount = 0, getUsage, streamed = false } = fallback;
+        const level = this.getUsageLevel(options.usage);
+        if (level === "refuse") {
+            logger.warn({ ...options.usage }, `${operationName}: Usage budget spent, refusing request`);
+            throw new QuotaExceededError("Usage budget exhausted");
+        }
+
+        let lastError: LLMError | null = null;
+
+        for (const provider of this.providers) {
+            const config = provider.models[kind];
+
+            for (const model of this.getModelChain(provider, kind, level)) {
+                if (imageCount > this.getImageLimit(provider, model)) {
+                    logger.debug({ provider: provider.name, model, imageCount }, `${operationName}: Skipping model that takes fewer images`);
+                    continue;
+                }
+                if (!this.circuitBreakers.isAvailable(provider.name, model)) {
+                    logger.debug({ provider: provider.name, model }, `${operationName}: Skipping model while its circuit is open`);
+                    lastError = this.circuitBreakers.getOpenError(provider.name, model) ?? lastError;
+                    continue;
+                }
+
+                let error: LLMError;
+                for (let attempt = 0; ; attempt++) {
+                    if (signal?.aborted) {
+                        throw abortError(signal, provider.name);
+                    }
+
+                    try {
+                        const result = await operation(provider, model);
+                        if (!streamed) {
+                            this.circuitBreakers.recordSuccess(provider.name, model);
+                        }
+                        const usage = getUsage?.(result);
+                        if (usage) {
+                            this.recordUsage(operationName, provider.name, model, usage, options.usage);
+                        }
+                        return result;
+                    } catch (caught) {
+                        if (signal?.aborted) {
+                            throw abortError(signal, provider.name);
+                        }
+                        error = toLLMError(caught, provider.name);
+                        this.circuitBreakers.recordFailure(provider.name, model, error);
+                    }
+
+                    const transient = error instanceof ServerError
+                        || error instanceof NetworkError
+                        || error instanceof TimeoutError;
+                    if (!transient || attempt >= config.maxRetries || !this.circuitBreakers.isAvailable(provider.name, model)) {
+                        break;
+                    }
+
+                    const delay = this.getRetryDelay(attempt);
+                    logger.warn({
+                        provider: provider.name,
+                        model,
+                        attempt: attempt + 1,
+                        maxRetries: config.maxRetries,
+                        delay,
+                        error
+                    }, `${operationName}: Transient failure, retrying model`);
+                    await sleep(delay, signal).catch(() => undefined);
+                }
+                lastError = error;
+
+                if (error instanceof RateLimitError) {
                     logger.warn({ 
                         component: "GroqAPI",
+                        provider: provider.name,
                         model,
+                        retryAfterMs: error.retryAfterMs,
                         error 
                     }, `${operationName}: Model rate limited, switching to next available model`);
-                    
-                    // Add delay before trying next model to avoid rapid rate limit hits
-                    await new Promise(resolve => setTimeout(resolve, 1000));
                     continue;
                 }
-                
-                throw error;
+
+                if (error instanceof ContextLengthError) {
+                    // Later models in the chain often have larger context windows
+                    logger.warn({
+                        provider: provider.name,
+                        model,
+                        error
+                    }, `${operationName}: Context too long for model, switching to next available model`);
+                    continue;
+                }
+
+                if (error instanceof ServerError || error instanceof TimeoutError) {
+                    logger.warn({
+                        provider: provider.name,
+                        model,
+                        error
+                    }, `${operationName}: Model kept failing, switching to next available model`);
+                    continue;
+                }
+
+                logger.warn({
+                    provider: provider.name,
+                    model,
+                    error
+                }, `${operationName}: Provider failed, switching to next available provider`);
+                break;
             }
         }
 
-        throw lastError || new Error("All models failed");
+        throw lastError || new LLMError("All models failed");
+    }
+
+    /**
+     * Gets the models of a provider to try in order. As the usage budget runs
+     * low only the instant model is left.
+     */
+    private getModelChain(provider: LLMProvider, kind: CompletionKind, level: DegradationLevel): string[] {
+        const config = provider.models[kind];
+        // Single-model chains repeat the same name at every level
+        return level === "instant_model"
+            ? [config.instantFallback]
+            : Array.from(new Set([config.primary, config.fallback, config.instantFallback]));
+    }
+
+    /**
+     * Exponential backoff with jitter, so concurrent retries don't land together
+     */
+    private getRetryDelay(attempt: number): number {
+        const ceiling = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+        return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+    }
+
+    /**
+     * Gets the health of models that have failed recently
+     */
+    public getModelHealth(): ModelHealth[] {
+        return this.circuitBreakers.getStatus();
+    }
+
+    /**
+     * Sets where completion usage is recorded and budgets are checked
+     */
+    public setUsageTracker(tracker: UsageTracker): void {
+        this.usageTracker = tracker;
+    }
+
+    /**
+     * Gets how far requests for a scope are cut back by its usage budget
+     */
+    public getUsageLevel(scope?: UsageScope): DegradationLevel {
+        return this.usageTracker?.getLevel(scope) ?? "normal";
     }
-} 
\ No newline at end of file
+
+    private recordUsage(
+        operationName: string,
+        provider: string,
+        model: string,
+        usage: CompletionUsage,
+        scope?: UsageScope
+    ): void {
+        this.usageTracker?.record(operationName, provider, model, usage, scope);
+    }
+}
+
+export type { PromptContext, ContextSource, GroqHandlerOptions, RequestOptions };
@@ -1,16 +1,77 @@
 import { EventEmitter } from "events";
 import { ChannelCache, CachedMessage } from "../../types";
-import { ChannelCacheOptions, CacheEvents } from "./types";
+import { ChannelCacheOptions, CacheEvents, RetentionPolicy, CacheStats } from "./types";
 import { createLogger } from "../../utils/logger";
+import { createSerialWriter } from "../../utils/files";
 
 const logger = createLogger("ChannelCacheManager");
 
 /**
- * Manages in-memory channel message caches with event emission
+ * Default delay used to batch writes to storage
+ */
+const DEFAULT_PERSIST_DELAY_MS = 2000;
+
+/**
+ * Default number of evicted messages kept as reply targets
+ */
+const DEFAULT_MAX_ARCHIVED_MESSAGES = 500;
+
+/**
+ * Fixed per-message overhead used when estimating memory usage
+ */
+const MESSAGE_OVERHEAD_BYTES = 256;
+
+/**
+ * A message evicted from or never part of a channel's recent history
+ */
+interface ArchivedMessage {
+    channelId: string;
+    message: CachedMessage;
+    /** Kept with the message so it stays private after its channel's cache is cleared */
+    isPrivate?: boolean;
+}
+
+/**
+ * A message in the cross-channel index
+ */
+interface IndexedMessage extends ArchivedMessage {
+    bytes: number;
+}
+
+/**
+ * Roughly estimates the memory a cached message occupies (UTF-16 strings)
+ */
+function estimateMessageBytes(message: CachedMessage): number {
+    const imageChars = message.images.reduce(
+        (sum, image) => sum + image.url.length + (image.lightAnalysis?.length ?? 0) + (image.detailedAnalysis?.length ?? 0),
+        0
+    );
+    const embedChars = (message.embeds ?? []).reduce((sum, embed) => sum + JSON.stringify(embed).length, 0);
+    const documentChars = (message.documents ?? []).reduce(
+        (sum, document) => sum + document.url.length + document.name.length + (document.excerpt?.length ?? 0),
+        0
+    );
+    return MESSAGE_OVERHEAD_BYTES
+        + 2 * (message.content.length + message.authorName.length + imageChars + embedChars + documentChars);
+}
+
+/**
+ * Manages channel message caches with event emission and optional persistence.
+ * Messages are indexed by ID across channels, and when a memory budget is set
+ * the least recently used channels give up their oldest messages first.
  */
 export class ChannelCacheManager extends EventEmitter {
+    /** Channel caches in least-recently-used order */
     private caches: Map<string, ChannelCache>;
     private readonly options: ChannelCacheOptions;
+    private messageIndex: Map<string, IndexedMessage> = new Map();
+    /** Evicted messages, oldest first, still resolvable by findMessage */
+    private archive: Map<string, ArchivedMessage> = new Map();
+    /** IDs of recently deleted messages, oldest first */
+    private deletedIds: Set<string> = new Set();
+    private totalBytes = 0;
+    private persistTimers: Map<string, NodeJS.Timeout> = new Map();
+    private readonly writer = createSerialWriter();
 
     constructor(options: ChannelCacheOptions) {
         super();
@@ -19,41 +80,175 @@ export class ChannelCacheManager extends EventEmitter {
     }
 
     /**
-     * Adds a message to the channel cache
+     * Loads persisted caches from storage, dropping messages outside each
+     * channel's retention policy. Call once at startup before handling messages.
+     */
+    public async loadFromStorage(): Promise<void> {
+        if (!this.options.storage) {
+            return;
+        }
+
+        try {
+            const stored = await this.options.storage.loadAll();
+            let messageCount = 0;
+
+            for (const cache of stored) {
+                const messages = this.applyRetention(cache.channelId, cache.messages)
+                    .slice(-this.options.maxSize);
+                if (messages.length === 0) continue;
+
+                this.caches.set(cache.channelId, { ...cache, messages });
+                messages.forEach(message => this.indexMessage(cache.channelId, message));
+                messageCount += messages.length;
+            }
+
+            this.enforceMemoryBudget();
+            logger.info({ ...this.getStats(), loadedMessages: messageCount }, "Loaded persisted channel caches");
+        } catch (error) {
+            logger.error({ error }, "Failed to load persisted channel caches");
+        }
+    }
+
+    /**
+     * Adds a message to the channel cache. A message already in the cache
+     * is replaced in place rather than added twice.
      */
     public async addMessage(channelId: string, message: CachedMessage): Promise<void> {
-        let cache = this.caches.get(channelId);
-        
-        if (!cache) {
-            cache = { messages: [] };
-            this.caches.set(channelId, cache);
+        const cache = this.touch(channelId) ?? { channelId, messages: [] };
+        this.caches.set(channelId, cache);
+
+        if (this.messageIndex.has(message.id)) {
+            this.replaceMessage(message);
+            return;
         }
 
         cache.messages.push(message);
+        this.indexMessage(channelId, message);
+        this.archive.delete(message.id);
         this.emit(CacheEvents.MESSAGE_ADDED, channelId, message);
 
+        const lastMessageId = cache.lastMessageId;
+        const lastMessage = cache.messages.find(m => m.id === lastMessageId);
+        if (!lastMessage || message.timestamp >= lastMessage.timestamp) {
+            cache.lastMessageId = message.id;
+        }
+
         // Maintain cache size
         if (cache.messages.length > this.options.maxSize) {
-            const removed = cache.messages.shift();
-            if (removed) {
-                this.emit(CacheEvents.MESSAGE_REMOVED, channelId, removed);
+            this.evictOldest(cache);
+        }
+        this.enforceMemoryBudget(channelId);
+
+        this.schedulePersist(channelId);
+    }
+
+    /**
+     * Replaces a cached or archived message with its edited version
+     * @returns The previous version, or undefined if the message isn't cached
+     */
+    public updateMessage(channelId: string, message: CachedMessage): CachedMessage | undefined {
+        const previous = this.replaceMessage(message);
+        if (previous) {
+            this.emit(CacheEvents.MESSAGE_UPDATED, channelId, message, previous);
+        }
+        return previous;
+    }
+
+    /**
+     * Removes a deleted message from the cache and the archive
+     * @returns The removed message, or undefined if it wasn't cached
+     */
+    public deleteMessage(channelId: string, messageId: string): CachedMessage | undefined {
+        this.deletedIds.add(messageId);
+        this.trimToLimit(this.deletedIds);
+
+        const indexed = this.messageIndex.get(messageId);
+        const archived = this.archive.get(messageId)?.message;
+        this.archive.delete(messageId);
+
+        if (indexed) {
+            const cache = this.caches.get(indexed.channelId);
+            cache?.messages.splice(cache.messages.indexOf(indexed.message), 1);
+            this.unindexMessage(messageId);
+            this.schedulePersist(indexed.channelId);
+        }
+
+        const removed = indexed?.message ?? archived;
+        if (removed) {
+            this.emit(CacheEvents.MESSAGE_DELETED, channelId, removed);
+        }
+        return removed;
+    }
+
+    /**
+     * Checks whether a message was recently deleted
+     */
+    public isDeleted(messageId: string): boolean {
+        return this.deletedIds.has(messageId);
+    }
+
+    /**
+     * Marks a channel (such as a DM or a private thread) as private, so its
+     * messages are only resolvable from within that channel
+     */
+    public markPrivate(channelId: string): void {
+        const cache = this.caches.get(channelId);
+        if (cache?.isPrivate) {
+            return;
+        }
+        if (cache) {
+            cache.isPrivate = true;
+        } else {
+            this.caches.set(channelId, { channelId, messages: [], isPrivate: true });
+        }
+
+        for (const entry of [...this.messageIndex.values(), ...this.archive.values()]) {
+            if (entry.channelId === channelId) {
+                entry.isPrivate = true;
             }
         }
     }
 
     /**
-     * Gets the cache for a specific channel
+     * Records the server a channel belongs to, null for DMs, so work done for
+     * the channel outside any reply, such as summaries, is counted against it
+     */
+    public setGuild(channelId: string, guildId: string | null): void {
+        const cache = this.caches.get(channelId);
+        if (cache) {
+            cache.guildId = guildId;
+        } else {
+            this.caches.set(channelId, { channelId, messages: [], guildId });
+        }
+    }
+
+    /**
+     * Gets the server a channel belongs to, if it has been recorded
+     */
+    public getGuildId(channelId: string): string | null | undefined {
+        return this.caches.get(channelId)?.guildId;
+    }
+
+    /**
+     * Gets the cache for a specific channel, marking it as recently used
      */
     public getCache(channelId: string): ChannelCache | undefined {
-        return this.caches.get(channelId);
+        return this.touch(channelId);
     }
 
     /**
-     * Clears the cache for a specific channel
+     * Clears the cache for a specific channel, including its persisted copy
      */
     public clearCache(channelId: string): void {
+        const cache = this.caches.get(channelId);
+        cache?.messages.forEach(message => this.unindexMessage(message.id));
         this.caches.delete(channelId);
+        this.cancelPersist(channelId);
         this.emit(CacheEvents.CACHE_CLEARED, channelId);
+
+        this.options.storage?.deleteChannel(channelId).catch(error => {
+            logger.error({ error, channelId }, "Failed to delete persisted channel cache");
+        });
     }
 
     /**
@@ -64,15 +259,243 @@ export class ChannelCacheManager extends EventEmitter {
     }
 
     /**
-     * Finds a message in any channel cache by ID
+     * Finds a message by ID in any channel cache, or among evicted messages.
+     * Messages in private channels are only found when looking from that channel.
+     * @param fromChannelId The channel the lookup is made for
      */
-    public findMessage(messageId: string): CachedMessage | undefined {
-        for (const cache of Object.values(this.caches)) {
-            const message = cache.messages.find((m: CachedMessage) => m.id === messageId);
-            if (message) {
-                return message;
+    public findMessage(messageId: string, fromChannelId?: string): CachedMessage | undefined {
+        const entry = this.messageIndex.get(messageId) ?? this.archive.get(messageId);
+        if (!entry) {
+            return undefined;
+        }
+
+        if (entry.channelId !== fromChannelId && entry.isPrivate) {
+            return undefined;
+        }
+
+        if (this.archive.has(messageId)) {
+            // Keep messages that are still being replied to around longer
+            this.archive.delete(messageId);
+            this.archive.set(messageId, entry);
+        }
+        return entry.message;
+    }
+
+    /**
+     * Keeps a message that isn't part of a channel's recent history (such as a
+     * reply target fetched from Discord) so later lookups can resolve it
+     */
+    public archiveMessage(channelId: string, message: CachedMessage): void {
+        if (this.messageIndex.has(message.id)) {
+            return;
+        }
+
+        this.archive.delete(message.id);
+        this.archive.set(message.id, { channelId, message, isPrivate: this.caches.get(channelId)?.isPrivate });
+        this.trimToLimit(this.archive);
+    }
+
+    /**
+     * Gets a snapshot of cache usage
+     */
+    public getStats(): CacheStats {
+        return {
+            channels: this.caches.size,
+            messages: this.messageIndex.size,
+            totalBytes: this.totalBytes,
+            archivedMessages: this.archive.size
+        };
+    }
+
+    /**
+     * Writes all pending changes to storage immediately. Call before shutdown.
+     */
+    public async flush(): Promise<void> {
+        const channelIds = Array.from(this.persistTimers.keys());
+        channelIds.forEach(channelId => this.cancelPersist(channelId));
+        await Promise.all(channelIds.map(channelId => this.persist(channelId)));
+    }
+
+    /**
+     * Moves a channel to the most recently used position
+     */
+    private touch(channelId: string): ChannelCache | undefined {
+        const cache = this.caches.get(channelId);
+        if (cache) {
+            this.caches.delete(channelId);
+            this.caches.set(channelId, cache);
+        }
+        return cache;
+    }
+
+    /**
+     * Drops the oldest entries of an insertion-ordered collection beyond the archive limit
+     */
+    private trimToLimit(entries: Map<string, unknown> | Set<string>): void {
+        const limit = this.options.maxArchivedMessages ?? DEFAULT_MAX_ARCHIVED_MESSAGES;
+        for (const key of entries.keys()) {
+            if (entries.size <= limit) break;
+            entries.delete(key);
+        }
+    }
+
+    /**
+     * Swaps a cached or archived message for a new version with the same ID
+     * @returns The previous version, or undefined if the message isn't known
+     */
+    private replaceMessage(message: CachedMessage): CachedMessage | undefined {
+        const indexed = this.messageIndex.get(message.id);
+        if (!indexed) {
+            const archived = this.archive.get(message.id);
+            if (archived) {
+                this.archive.set(message.id, { ...archived, message });
             }
+            return archived?.message;
+        }
+
+        const cache = this.caches.get(indexed.channelId);
+        if (cache) {
+            cache.messages[cache.messages.indexOf(indexed.message)] = message;
+        }
+        this.unindexMessage(message.id);
+        this.indexMessage(indexed.channelId, message);
+        this.enforceMemoryBudget(indexed.channelId);
+        this.schedulePersist(indexed.channelId);
+        return indexed.message;
+    }
+
+    private indexMessage(channelId: string, message: CachedMessage): void {
+        const bytes = estimateMessageBytes(message);
+        this.messageIndex.set(message.id, { channelId, message, bytes, isPrivate: this.caches.get(channelId)?.isPrivate });
+        this.totalBytes += bytes;
+    }
+
+    private unindexMessage(messageId: string): void {
+        const indexed = this.messageIndex.get(messageId);
+        if (indexed) {
+            this.totalBytes -= indexed.bytes;
+            this.messageIndex.delete(messageId);
+        }
+    }
+
+    /**
+     * Evicts the oldest message of a channel, keeping it resolvable as a reply target
+     */
+    private evictOldest(cache: ChannelCache): void {
+        const removed = cache.messages.shift();
+        if (!removed) {
+            return;
+        }
+
+        this.unindexMessage(removed.id);
+        this.archiveMessage(cache.channelId, removed);
+        this.emit(CacheEvents.MESSAGE_REMOVED, cache.channelId, removed);
+    }
+
+    /**
+     * Evicts messages from the least recently used channels until the cache
+     * fits its memory budget. The active channel is only evicted from once
+     * every other channel is empty, and always keeps its newest message.
+     */
+    private enforceMemoryBudget(activeChannelId?: string): void {
+        const maxTotalBytes = this.options.maxTotalBytes;
+        if (maxTotalBytes === undefined || this.totalBytes <= maxTotalBytes) {
+            return;
+        }
+
+        const initialBytes = this.totalBytes;
+        let evicted = 0;
+
+        for (const cache of this.caches.values()) {
+            if (cache.channelId === activeChannelId) continue;
+
+            while (cache.messages.length > 0 && this.totalBytes > maxTotalBytes) {
+                this.evictOldest(cache);
+                this.schedulePersist(cache.channelId);
+                evicted++;
+            }
+            if (this.totalBytes <= maxTotalBytes) break;
+        }
+
+        const activeCache = activeChannelId ? this.caches.get(activeChannelId) : undefined;
+        while (activeCache && activeCache.messages.length > 1 && this.totalBytes > maxTotalBytes) {
+            this.evictOldest(activeCache);
+            evicted++;
+        }
+
+        logger.debug({
+            initialBytes,
+            totalBytes: this.totalBytes,
+            maxTotalBytes,
+            evicted
+        }, "Evicted messages to fit cache memory budget");
+    }
+
+    /**
+     * Gets the retention policy for a channel
+     */
+    private getRetention(channelId: string): RetentionPolicy {
+        const retention = this.options.retention;
+        return {
+            maxMessages: this.options.maxSize,
+            maxAgeMs: Infinity,
+            ...retention?.default,
+            ...retention?.channels?.[channelId]
+        };
+    }
+
+    /**
+     * Filters messages down to what a channel's retention policy keeps
+     */
+    private applyRetention(channelId: string, messages: CachedMessage[]): CachedMessage[] {
+        const policy = this.getRetention(channelId);
+        const cutoff = Date.now() - policy.maxAgeMs;
+
+        return messages
+            .filter(message => message.timestamp.getTime() >= cutoff)
+            .slice(-policy.maxMessages);
+    }
+
+    /**
+     * Schedules a batched write of a channel cache to storage
+     */
+    private schedulePersist(channelId: string): void {
+        if (!this.options.storage || this.persistTimers.has(channelId)) {
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            this.persistTimers.delete(channelId);
+            void this.persist(channelId);
+        }, this.options.persistDelayMs ?? DEFAULT_PERSIST_DELAY_MS);
+        timer.unref();
+        this.persistTimers.set(channelId, timer);
+    }
+
+    private cancelPersist(channelId: string): void {
+        clearTimeout(this.persistTimers.get(channelId));
+        this.persistTimers.delete(channelId);
+    }
+
+    /**
+     * Writes a channel cache to storage, trimmed to its retention policy
+     */
+    private async persist(channelId: string): Promise<void> {
+        const storage = this.options.storage;
+        const cache = this.caches.get(channelId);
+        if (!storage || !cache) {
+            return;
+        }
+
+        const snapshot: ChannelCache = {
+            ...cache,
+            messages: this.applyRetention(channelId, cache.messages)
+        };
+
+        try {
+            await this.writer.write(() => storage.saveChannel(snapshot));
+        } catch (error) {
+            logger.error({ error, channelId }, "Failed to persist channel cache");
         }
-        return undefined;
     }
-} 
\ No newline at end of file
+} 
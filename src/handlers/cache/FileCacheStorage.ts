@@ -0,0 +1,82 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { ChannelCache, CachedMessage } from "../../types";
+import { CacheStorageBackend } from "./types";
+import { createLogger } from "../../utils/logger";
+import { writeFileAtomic } from "../../utils/files";
+
+const logger = createLogger("FileCacheStorage");
+
+/**
+ * Shape of a cached message on disk, with the timestamp as an ISO string
+ */
+type StoredMessage = Omit<CachedMessage, "timestamp"> & { timestamp: string };
+
+/**
+ * Shape of a channel cache on disk
+ */
+type StoredChannelCache = Omit<ChannelCache, "messages"> & { messages: StoredMessage[] };
+
+/**
+ * Persists each channel cache, including image analyses, as a JSON file in a directory
+ */
+export class FileCacheStorage implements CacheStorageBackend {
+    constructor(private readonly directory: string) {}
+
+    public async loadAll(): Promise<ChannelCache[]> {
+        let files: string[];
+        try {
+            files = await fs.readdir(this.directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                logger.error({ error, directory: this.directory }, "Failed to read cache directory");
+            }
+            return [];
+        }
+
+        const caches: ChannelCache[] = [];
+        for (const file of files.filter(name => name.endsWith(".json"))) {
+            try {
+                const stored = JSON.parse(
+                    await fs.readFile(path.join(this.directory, file), "utf-8")
+                ) as StoredChannelCache;
+
+                caches.push({
+                    ...stored,
+                    messages: stored.messages.map(message => ({
+                        ...message,
+                        timestamp: new Date(message.timestamp)
+                    }))
+                });
+            } catch (error) {
+                logger.error({ error, file }, "Failed to load channel cache file");
+            }
+        }
+        return caches;
+    }
+
+    public async saveChannel(cache: ChannelCache): Promise<void> {
+        const stored: StoredChannelCache = {
+            ...cache,
+            messages: cache.messages.map(message => ({
+                ...message,
+                timestamp: message.timestamp.toISOString()
+            }))
+        };
+        await writeFileAtomic(this.getFilePath(cache.channelId), JSON.stringify(stored));
+    }
+
+    public async deleteChannel(channelId: string): Promise<void> {
+        try {
+            await fs.unlink(this.getFilePath(channelId));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                throw error;
+            }
+        }
+    }
+
+    private getFilePath(channelId: string): string {
+        return path.join(this.directory, `${channelId}.json`);
+    }
+}
@@ -0,0 +1,208 @@
+import * as fs from "fs/promises";
+import { CachedImageAnalysis, ImageAnalysisCacheOptions } from "./types";
+import { createLogger } from "../../utils/logger";
+import { createSerialWriter, writeFileAtomic } from "../../utils/files";
+import { stableImageUrl } from "../../utils/images";
+import { raceAbort } from "../../utils/abort";
+
+const logger = createLogger("ImageAnalysisCache");
+
+/**
+ * Delay used to batch writes of new analyses
+ */
+const PERSIST_DELAY_MS = 10000;
+
+/**
+ * Shape of the analysis cache on disk
+ */
+interface StoredImageAnalyses {
+    /** Analyses by content key, least recently used first */
+    analyses: Record<string, CachedImageAnalysis>;
+    /** Content key of each image URL (see stableImageUrl) seen so far */
+    urls: Record<string, string>;
+}
+
+type AnalysisKind = keyof CachedImageAnalysis;
+
+/**
+ * Remembers image analyses by content, so an image that is reposted or
+ * replied to again is never sent to the vision model twice
+ */
+export class ImageAnalysisCache {
+    /** Analyses in least-recently-used order */
+    private analyses: Map<string, CachedImageAnalysis> = new Map();
+    private urlKeys: Map<string, string> = new Map();
+    /** Analyses being produced, so concurrent requests for an image share one call */
+    private pending: Map<string, Promise<string>> = new Map();
+    private readonly options: ImageAnalysisCacheOptions;
+    private persistTimer?: NodeJS.Timeout;
+    private readonly writer = createSerialWriter();
+
+    constructor(options: ImageAnalysisCacheOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Loads persisted analyses, if the cache has a file
+     */
+    public async load(): Promise<void> {
+        if (!this.options.filePath) {
+            return;
+        }
+
+        try {
+            const stored = JSON.parse(await fs.readFile(this.options.filePath, "utf-8")) as StoredImageAnalyses;
+            this.analyses = new Map(Object.entries(stored.analyses ?? {}));
+            this.urlKeys = new Map(Object.entries(stored.urls ?? {}));
+            this.evict();
+            logger.info({ images: this.analyses.size }, "Loaded image analysis cache");
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                logger.error({ error }, "Failed to load image analysis cache, starting empty");
+            }
+        }
+    }
+
+    /**
+     * Gets the content key already worked out for an image URL
+     */
+    public getKeyForUrl(url: string): string | undefined {
+        return this.urlKeys.get(stableImageUrl(url));
+    }
+
+    /**
+     * Remembers the content key of an image URL
+     */
+    public setKeyForUrl(url: string, key: string): void {
+        this.urlKeys.set(stableImageUrl(url), key);
+        this.schedulePersist();
+    }
+
+    /**
+     * Gets a cached analysis of an image without producing one
+     */
+    public get(key: string, kind: AnalysisKind): string | undefined {
+        const entry = this.touch(key);
+        return entry?.[kind];
+    }
+
+    /**
+     * Gets a cached analysis of an image, or produces and caches it. Requests
+     * for the same image and kind made while it is produced share the result.
+     * Failures are not cached.
+     * @param analyze Runs without any caller's signal, since others may be waiting on it
+     * @param signal Stops this caller waiting; the analysis carries on for the rest
+     */
+    public async getOrAnalyze(
+        key: string,
+        kind: AnalysisKind,
+        analyze: () => Promise<string>,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const cached = this.get(key, kind);
+        if (cached !== undefined) {
+            logger.debug({ key, kind }, "Image analysis cache hit");
+            return cached;
+        }
+
+        const pendingKey = `${kind}:${key}`;
+        let pending = this.pending.get(pendingKey);
+        if (!pending) {
+            pending = analyze().then(
+                analysis => {
+                    this.pending.delete(pendingKey);
+                    this.set(key, kind, analysis);
+                    return analysis;
+                },
+                error => {
+                    this.pending.delete(pendingKey);
+                    throw error;
+                }
+            );
+            this.pending.set(pendingKey, pending);
+        }
+        return raceAbort(pending, signal);
+    }
+
+    /**
+     * Writes pending changes immediately, e.g. before shutdown
+     */
+    public async flush(): Promise<void> {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+            this.persistTimer = undefined;
+            await this.persist();
+        }
+        await this.writer.idle();
+    }
+
+    private set(key: string, kind: AnalysisKind, analysis: string): void {
+        const entry = this.touch(key) ?? {};
+        entry[kind] = analysis;
+        this.analyses.set(key, entry);
+        this.evict();
+        this.schedulePersist();
+    }
+
+    /**
+     * Moves an entry to the most recently used position
+     */
+    private touch(key: string): CachedImageAnalysis | undefined {
+        const entry = this.analyses.get(key);
+        if (entry) {
+            this.analyses.delete(key);
+            this.analyses.set(key, entry);
+        }
+        return entry;
+    }
+
+    /**
+     * Forgets the least recently used images over the limit, and URLs of forgotten images
+     */
+    private evict(): void {
+        if (this.analyses.size <= this.options.maxEntries) {
+            return;
+        }
+
+        for (const key of this.analyses.keys()) {
+            if (this.analyses.size <= this.options.maxEntries) break;
+            this.analyses.delete(key);
+        }
+        for (const [url, key] of this.urlKeys) {
+            if (!this.analyses.has(key)) {
+                this.urlKeys.delete(url);
+            }
+        }
+    }
+
+    private schedulePersist(): void {
+        if (!this.options.filePath || this.persistTimer) {
+            return;
+        }
+        this.persistTimer = setTimeout(() => {
+            this.persistTimer = undefined;
+            void this.persist();
+        }, PERSIST_DELAY_MS);
+        this.persistTimer.unref();
+    }
+
+    /**
+     * Writes the cache to disk
+     */
+    private async persist(): Promise<void> {
+        const filePath = this.options.filePath;
+        if (!filePath) {
+            return;
+        }
+
+        const stored: StoredImageAnalyses = {
+            analyses: Object.fromEntries(this.analyses),
+            urls: Object.fromEntries(this.urlKeys)
+        };
+        try {
+            await this.writer.write(() => writeFileAtomic(filePath, JSON.stringify(stored)));
+        } catch (error) {
+            logger.error({ error }, "Failed to persist image analysis cache");
+        }
+    }
+}
@@ -0,0 +1,22 @@
+import { ChannelCache } from "../../types";
+import { CacheStorageBackend } from "./types";
+
+/**
+ * Keeps "persisted" caches in process memory; useful for tests and
+ * for running without a writable disk
+ */
+export class MemoryCacheStorage implements CacheStorageBackend {
+    private stored: Map<string, ChannelCache> = new Map();
+
+    public async loadAll(): Promise<ChannelCache[]> {
+        return Array.from(this.stored.values()).map(cache => structuredClone(cache));
+    }
+
+    public async saveChannel(cache: ChannelCache): Promise<void> {
+        this.stored.set(cache.channelId, structuredClone(cache));
+    }
+
+    public async deleteChannel(channelId: string): Promise<void> {
+        this.stored.delete(channelId);
+    }
+}
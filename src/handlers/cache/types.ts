@@ -1,8 +1,77 @@
+import { ChannelCache } from "../../types";
+
+/**
+ * How long persisted messages are kept for a channel
+ */
+interface RetentionPolicy {
+    /** Maximum number of messages persisted; capped by the cache's maxSize */
+    maxMessages: number;
+    /** Messages older than this are not persisted or reloaded */
+    maxAgeMs: number;
+}
+
+/**
+ * Default retention plus per-channel overrides
+ */
+interface RetentionOptions {
+    default?: Partial<RetentionPolicy>;
+    channels?: Record<string, Partial<RetentionPolicy>>;
+}
+
+/**
+ * Pluggable storage that lets channel caches survive restarts
+ */
+interface CacheStorageBackend {
+    /** Loads every stored channel cache */
+    loadAll(): Promise<ChannelCache[]>;
+    /** Replaces the stored cache for a channel */
+    saveChannel(cache: ChannelCache): Promise<void>;
+    /** Removes the stored cache for a channel */
+    deleteChannel(channelId: string): Promise<void>;
+}
+
 /**
  * Configuration options for channel cache
  */
 interface ChannelCacheOptions {
     maxSize: number;
+    /** Where caches are persisted; in-memory only when omitted */
+    storage?: CacheStorageBackend;
+    retention?: RetentionOptions;
+    /** Delay used to batch writes to storage */
+    persistDelayMs?: number;
+    /** Approximate memory budget across all channels; unbounded when omitted */
+    maxTotalBytes?: number;
+    /** Evicted messages kept so they can still be resolved as reply targets */
+    maxArchivedMessages?: number;
+}
+
+/**
+ * Snapshot of cache usage, for logging and status output
+ */
+interface CacheStats {
+    channels: number;
+    messages: number;
+    totalBytes: number;
+    archivedMessages: number;
+}
+
+/**
+ * Configuration options for the image analysis cache
+ */
+interface ImageAnalysisCacheOptions {
+    /** Path of the JSON file analyses are persisted to; in-memory only when omitted */
+    filePath?: string;
+    /** Images remembered before the least recently used are forgotten */
+    maxEntries: number;
+}
+
+/**
+ * Analyses of one image's content, shared by every message that posts it
+ */
+interface CachedImageAnalysis {
+    light?: string;
+    detailed?: string;
 }
 
 /**
@@ -10,8 +79,22 @@ interface ChannelCacheOptions {
  */
 enum CacheEvents {
     MESSAGE_ADDED = "messageAdded",
+    /** A message was evicted to make room; it still exists in Discord */
     MESSAGE_REMOVED = "messageRemoved",
+    /** A cached message was edited: (channelId, message, previous) */
+    MESSAGE_UPDATED = "messageUpdated",
+    /** A cached message was deleted in Discord */
+    MESSAGE_DELETED = "messageDeleted",
     CACHE_CLEARED = "cacheCleared"
 }
 
-export { ChannelCacheOptions, CacheEvents }; 
\ No newline at end of file
+export {
+    ChannelCacheOptions,
+    CacheEvents,
+    RetentionPolicy,
+    RetentionOptions,
+    CacheStorageBackend,
+    CacheStats,
+    ImageAnalysisCacheOptions,
+    CachedImageAnalysis
+};
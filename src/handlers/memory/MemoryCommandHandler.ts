@@ -0,0 +1,114 @@
+import { Message, PermissionFlagsBits } from "discord.js";
+import { UserMemoryStore } from "./UserMemoryStore";
+import { createLogger } from "../../utils/logger";
+
+const logger = createLogger("MemoryCommandHandler");
+
+/**
+ * Prefix for memory commands
+ */
+const COMMAND_PREFIX = "!";
+
+/**
+ * Handles commands for viewing and deleting stored user memories:
+ * - !memories [@user]          list memories (others' require Manage Server)
+ * - !forget <number|all> [@user]  delete one or all memories
+ */
+export class MemoryCommandHandler {
+    constructor(private readonly memoryStore: UserMemoryStore) {}
+
+    /**
+     * Handles the message if it is a memory command
+     * @returns true if the message was a memory command
+     */
+    public async handleCommand(message: Message): Promise<boolean> {
+        const [command, ...args] = message.content.trim().split(/\s+/);
+
+        if (command === `${COMMAND_PREFIX}memories`) {
+            await this.handleView(message);
+            return true;
+        }
+        if (command === `${COMMAND_PREFIX}forget`) {
+            await this.handleForget(message, args.filter(arg => !/^<@!?\d+>$/.test(arg)));
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Lists the memories about the author or a mentioned user
+     */
+    private async handleView(message: Message): Promise<void> {
+        const target = this.resolveTarget(message);
+        if (!target) {
+            await message.reply({ content: "only mods can peek at other people's memories ser" });
+            return;
+        }
+
+        const memories = await this.memoryStore.getMemories(target.id);
+        if (memories.length === 0) {
+            await message.reply({ content: `i don't remember anything about ${target.name} yet` });
+            return;
+        }
+
+        const lines = memories.map((memory, index) => `${index + 1}. [${memory.kind}] ${memory.content}`);
+        await message.reply({
+            content: `what i remember about ${target.name}:\n${lines.join("\n")}\n\nuse \`${COMMAND_PREFIX}forget <number>\` or \`${COMMAND_PREFIX}forget all\` to delete`,
+            allowedMentions: { parse: [] }
+        });
+    }
+
+    /**
+     * Deletes one or all memories about the author or a mentioned user
+     */
+    private async handleForget(message: Message, args: string[]): Promise<void> {
+        const target = this.resolveTarget(message);
+        if (!target) {
+            await message.reply({ content: "only mods can make me forget other people ser" });
+            return;
+        }
+
+        const selector = args[0]?.toLowerCase();
+        if (selector === "all") {
+            const count = await this.memoryStore.clearMemories(target.id);
+            logger.info({ userId: target.id, requestedBy: message.author.id, count }, "Cleared user memories");
+            await message.reply({ content: `done, forgot ${count} thing(s) about ${target.name}`, allowedMentions: { parse: [] } });
+            return;
+        }
+
+        const position = Number(selector);
+        if (!Number.isInteger(position) || position < 1) {
+            await message.reply({ content: `usage: \`${COMMAND_PREFIX}forget <number>\` or \`${COMMAND_PREFIX}forget all\`` });
+            return;
+        }
+
+        const deleted = await this.memoryStore.deleteMemory(target.id, position);
+        if (!deleted) {
+            await message.reply({ content: `there's no memory #${position}, check \`${COMMAND_PREFIX}memories\`` });
+            return;
+        }
+
+        logger.info({ userId: target.id, requestedBy: message.author.id, position }, "Deleted user memory");
+        await message.reply({ content: `forgot: ${deleted.content}`, allowedMentions: { parse: [] } });
+    }
+
+    /**
+     * Resolves whose memories a command is about. Targeting someone else
+     * requires the Manage Server permission.
+     * @returns The target user, or null if the author isn't allowed
+     */
+    private resolveTarget(message: Message): { id: string; name: string } | null {
+        const mentioned = message.mentions.users
+            .filter(user => user.id !== message.client.user?.id)
+            .first();
+
+        if (!mentioned || mentioned.id === message.author.id) {
+            return { id: message.author.id, name: "you" };
+        }
+
+        if (!message.member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+            return null;
+        }
+        return { id: mentioned.id, name: mentioned.username };
+    }
+}
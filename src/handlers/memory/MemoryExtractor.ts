@@ -0,0 +1,48 @@
+import { GroqHandler } from "../../groqApi";
+import { UserMemoryStore } from "./UserMemoryStore";
+import { createLogger } from "../../utils/logger";
+import { UsageScope } from "../usage/types";
+
+const logger = createLogger("MemoryExtractor");
+
+/**
+ * Extracts long-term memories from finished exchanges with users
+ */
+export class MemoryExtractor {
+    constructor(
+        private readonly groqHandler: GroqHandler,
+        private readonly memoryStore: UserMemoryStore
+    ) {}
+
+    /**
+     * Extracts and stores memories about a user from one exchange with the bot.
+     * Failures are logged and otherwise ignored, since memory is best-effort.
+     * @param usage Who the extraction is counted against, e.g. the exchange's guild, channel and user
+     */
+    public async extractFromExchange(
+        userId: string,
+        userName: string,
+        userMessage: string,
+        botReply: string,
+        usage: UsageScope = { userId }
+    ): Promise<void> {
+        try {
+            const userLabel = `<@${userId}> (${userName})`;
+            const existing = await this.memoryStore.getMemories(userId);
+            const exchange = `${userLabel}: ${userMessage}\nBot: ${botReply}`;
+
+            const extracted = await this.groqHandler.extractUserMemories(
+                userLabel,
+                exchange,
+                existing.map(memory => memory.content),
+                { usage }
+            );
+
+            if (extracted.length > 0) {
+                await this.memoryStore.addMemories(userId, extracted);
+            }
+        } catch (error) {
+            logger.error({ error, userId }, "Failed to extract user memories");
+        }
+    }
+}
@@ -0,0 +1,125 @@
+import * as fs from "fs/promises";
+import { UserMemory, MemoryKind, MemoryStoreOptions } from "./types";
+import { createLogger } from "../../utils/logger";
+import { createSerialWriter, writeFileAtomic } from "../../utils/files";
+
+const logger = createLogger("UserMemoryStore");
+
+/**
+ * Stores long-term memories per user, persisted to a local JSON file
+ */
+export class UserMemoryStore {
+    private memories: Map<string, UserMemory[]> = new Map();
+    private readonly options: MemoryStoreOptions;
+    private loaded: Promise<void>;
+    private readonly writer = createSerialWriter();
+
+    constructor(options: MemoryStoreOptions) {
+        this.options = options;
+        this.loaded = this.load();
+    }
+
+    /**
+     * Gets all memories about a user, oldest first
+     */
+    public async getMemories(userId: string): Promise<UserMemory[]> {
+        await this.loaded;
+        return [...this.memories.get(userId) ?? []];
+    }
+
+    /**
+     * Adds memories about a user, skipping ones already stored
+     * @returns The memories that were actually added
+     */
+    public async addMemories(
+        userId: string,
+        entries: Array<{ kind: MemoryKind; content: string }>
+    ): Promise<UserMemory[]> {
+        await this.loaded;
+        const existing = this.memories.get(userId) ?? [];
+        const known = new Set(existing.map(memory => memory.content.toLowerCase()));
+        const added: UserMemory[] = [];
+
+        for (const entry of entries) {
+            const content = entry.content.trim();
+            if (!content || known.has(content.toLowerCase())) continue;
+
+            known.add(content.toLowerCase());
+            added.push({ kind: entry.kind, content, createdAt: new Date().toISOString() });
+        }
+
+        if (added.length === 0) {
+            return added;
+        }
+
+        const updated = [...existing, ...added].slice(-this.options.maxPerUser);
+        this.memories.set(userId, updated);
+        await this.save();
+
+        logger.info({ userId, added: added.length, total: updated.length }, "Stored user memories");
+        return added;
+    }
+
+    /**
+     * Deletes a single memory by its position in getMemories (1-based)
+     * @returns The deleted memory, or undefined if the position doesn't exist
+     */
+    public async deleteMemory(userId: string, position: number): Promise<UserMemory | undefined> {
+        await this.loaded;
+        const existing = this.memories.get(userId) ?? [];
+        const [deleted] = existing.splice(position - 1, 1);
+
+        if (!deleted) {
+            return undefined;
+        }
+
+        if (existing.length === 0) {
+            this.memories.delete(userId);
+        }
+        await this.save();
+        return deleted;
+    }
+
+    /**
+     * Deletes every memory about a user
+     * @returns How many memories were deleted
+     */
+    public async clearMemories(userId: string): Promise<number> {
+        await this.loaded;
+        const count = this.memories.get(userId)?.length ?? 0;
+
+        if (count > 0) {
+            this.memories.delete(userId);
+            await this.save();
+        }
+        return count;
+    }
+
+    /**
+     * Loads memories from disk; a missing file means no memories yet
+     */
+    private async load(): Promise<void> {
+        try {
+            const data = JSON.parse(await fs.readFile(this.options.filePath, "utf-8")) as Record<string, UserMemory[]>;
+            this.memories = new Map(Object.entries(data));
+            logger.info({ users: this.memories.size }, "Loaded user memories");
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                logger.error({ error, filePath: this.options.filePath }, "Failed to load user memories");
+            }
+        }
+    }
+
+    /**
+     * Writes memories to disk
+     */
+    private async save(): Promise<void> {
+        const data = JSON.stringify(Object.fromEntries(this.memories), null, 2);
+
+        try {
+            await this.writer.write(() => writeFileAtomic(this.options.filePath, data));
+        } catch (error) {
+            logger.error({ error, filePath: this.options.filePath }, "Failed to save user memories");
+        }
+    }
+}
@@ -0,0 +1,25 @@
+/**
+ * Kinds of things the bot remembers about a user
+ */
+type MemoryKind = "preference" | "joke" | "fact";
+
+/**
+ * A single remembered item about a user
+ */
+interface UserMemory {
+    kind: MemoryKind;
+    content: string;
+    createdAt: string;
+}
+
+/**
+ * Configuration options for the user memory store
+ */
+interface MemoryStoreOptions {
+    /** Path of the JSON file memories are persisted to */
+    filePath: string;
+    /** Maximum memories kept per user; the oldest are dropped first */
+    maxPerUser: number;
+}
+
+export type { MemoryKind, UserMemory, MemoryStoreOptions };
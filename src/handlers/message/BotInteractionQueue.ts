@@ -3,77 +3,369 @@ import { createLogger } from "../../utils/logger";
 
 const logger = createLogger("BotInteractionQueue");
 
+/**
+ * What happens when a channel's queue is full:
+ * - drop_newest: the incoming item is rejected
+ * - drop_oldest: the lowest-priority, oldest waiting item makes room
+ * - coalesce: the incoming item replaces a waiting item with the same
+ *   coalesce key, falling back to drop_oldest when there is none
+ */
+type OverflowPolicy = "drop_newest" | "drop_oldest" | "coalesce";
+
 /**
  * Configuration options for the interaction queue
  */
 interface QueueOptions {
-    /** Minimum delay between actions in milliseconds */
+    /** Minimum delay between actions in the same channel, in milliseconds */
     minDelayMs: number;
+    /** Actions running at once across all channels */
+    maxConcurrency?: number;
+    /** Items waiting per channel before the overflow policy applies */
+    maxDepth?: number;
+    overflowPolicy?: OverflowPolicy;
+    /** How long an item may wait before it is discarded as stale */
+    defaultDeadlineMs?: number;
 }
 
 /**
- * Manages queuing of bot interactions with message spacing
+ * Per-item options for enqueue
+ */
+interface EnqueueOptions {
+    /** Higher priority items in a channel run first */
+    priority?: number;
+    /** Overrides the default deadline for this item */
+    deadlineMs?: number;
+    /** Items with the same key can be coalesced when the queue overflows */
+    coalesceKey?: string;
+    /** Called when the item is dropped without running: overflow, deadline, removal or clear */
+    onDiscard?: () => void;
+}
+
+interface QueueItem {
+    action: () => Promise<void>;
+    priority: number;
+    deadline: number;
+    coalesceKey?: string;
+    onDiscard?: () => void;
+    /** Enqueue order, to keep items of equal priority first-in first-out */
+    sequence: number;
+}
+
+interface ChannelQueue {
+    channel: TextBasedChannel;
+    items: QueueItem[];
+    running: boolean;
+    lastFinishedAt: number;
+    /** Shows typing while items wait */
+    typingInterval?: NodeJS.Timeout;
+}
+
+/**
+ * Type for channels that support typing indicators
+ */
+type TypingCapableChannel = TextBasedChannel & {
+    sendTyping: () => Promise<void>;
+};
+
+const DEFAULT_MAX_CONCURRENCY = 3;
+const DEFAULT_MAX_DEPTH = 10;
+const DEFAULT_DEADLINE_MS = 2 * 60 * 1000;
+
+/**
+ * Typing indicators last 10 seconds, so waiting channels refresh them a bit sooner
+ */
+const TYPING_REFRESH_MS = 8000;
+
+/**
+ * Schedules bot interactions with one queue per channel: a channel runs one
+ * action at a time, spaced by minDelayMs, while different channels run in
+ * parallel up to maxConcurrency
  */
 export class BotInteractionQueue {
-    private queue: Array<() => Promise<void>> = [];
-    private processing = false;
-    private readonly options: QueueOptions;
+    private readonly channels: Map<string, ChannelQueue> = new Map();
+    private readonly options: Required<QueueOptions>;
+    private running = 0;
+    private sequence = 0;
+    private wakeTimer?: NodeJS.Timeout;
 
     constructor(options: QueueOptions) {
-        this.options = options;
+        this.options = {
+            maxConcurrency: DEFAULT_MAX_CONCURRENCY,
+            maxDepth: DEFAULT_MAX_DEPTH,
+            overflowPolicy: "drop_oldest",
+            defaultDeadlineMs: DEFAULT_DEADLINE_MS,
+            ...options
+        };
     }
 
     /**
-     * Enqueues a bot interaction with typing indicator
+     * Enqueues a bot interaction, showing typing in the channel while it waits
      * @param action - The action to perform
-     * @param channel - The channel to show typing in
-     * @param priority - Higher priority items are processed first
+     * @param channel - The channel the action replies in
+     * @returns false if the item was rejected because the channel's queue is full
      */
-    public async enqueue(
+    public enqueue(
         action: () => Promise<void>,
         channel: TextBasedChannel,
-        priority = 0
-    ): Promise<void> {
-        const task = async () => {
-            try {
-                await action();
-            } catch (error) {
-                logger.error({ error }, "Error executing queued action");
-            }
+        options: EnqueueOptions = {}
+    ): boolean {
+        const queue = this.getChannelQueue(channel);
+        const item: QueueItem = {
+            action,
+            priority: options.priority ?? 0,
+            deadline: Date.now() + (options.deadlineMs ?? this.options.defaultDeadlineMs),
+            coalesceKey: options.coalesceKey,
+            onDiscard: options.onDiscard,
+            sequence: this.sequence++
         };
 
-        if (priority > 0) {
-            this.queue.unshift(task);
-        } else {
-            this.queue.push(task);
+        this.discardExpired(queue);
+        if (queue.items.length >= this.options.maxDepth && !this.makeRoom(queue, item)) {
+            logger.warn({ channelId: channel.id, depth: queue.items.length }, "Channel queue full, dropping new item");
+            item.onDiscard?.();
+            return false;
         }
 
-        if (!this.processing) {
-            void this.processQueue();
+        queue.items.push(item);
+        queue.items.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+        this.pump();
+        this.updateTyping(queue);
+        return true;
+    }
+
+    /**
+     * Takes a waiting action out of a channel's queue, e.g. once the messages it answers are gone
+     * @returns Whether the action was waiting
+     */
+    public remove(channelId: string, action: () => Promise<void>): boolean {
+        const queue = this.channels.get(channelId);
+        const index = queue?.items.findIndex(item => item.action === action) ?? -1;
+        if (!queue || index === -1) {
+            return false;
         }
+
+        const [removed] = queue.items.splice(index, 1);
+        removed.onDiscard?.();
+        this.updateTyping(queue);
+        return true;
     }
 
     /**
-     * Processes the queue with delays between actions
+     * Discards every waiting item, e.g. on shutdown. Running actions finish.
      */
-    private async processQueue(): Promise<void> {
-        if (this.processing || this.queue.length === 0) return;
+    public clear(): void {
+        for (const queue of this.channels.values()) {
+            const discarded = queue.items;
+            queue.items = [];
+            discarded.forEach(item => item.onDiscard?.());
+            this.updateTyping(queue);
+        }
+        if (this.wakeTimer) {
+            clearTimeout(this.wakeTimer);
+            this.wakeTimer = undefined;
+        }
+    }
+
+    /**
+     * Gets the number of items waiting in a channel
+     */
+    public getDepth(channelId: string): number {
+        return this.channels.get(channelId)?.items.length ?? 0;
+    }
 
-        this.processing = true;
+    /**
+     * Frees a slot in a full queue according to the overflow policy
+     * @returns false if the incoming item should be dropped instead
+     */
+    private makeRoom(queue: ChannelQueue, incoming: QueueItem): boolean {
+        const policy = this.options.overflowPolicy;
+        if (policy === "drop_newest") {
+            return false;
+        }
 
-        try {
-            while (this.queue.length > 0) {
-                const task = this.queue.shift();
-                if (task) {
-                    await task();
-                    // Add delay between actions
-                    if (this.queue.length > 0) {
-                        await new Promise(resolve => setTimeout(resolve, this.options.minDelayMs));
-                    }
+        if (policy === "coalesce" && incoming.coalesceKey !== undefined) {
+            const index = queue.items.findIndex(item => item.coalesceKey === incoming.coalesceKey);
+            if (index !== -1) {
+                const [replaced] = queue.items.splice(index, 1);
+                replaced.onDiscard?.();
+                // Keep the replaced item's place in line
+                incoming.priority = Math.max(incoming.priority, replaced.priority);
+                incoming.sequence = replaced.sequence;
+                logger.debug({ channelId: queue.channel.id, coalesceKey: incoming.coalesceKey }, "Coalesced queued item");
+                return true;
+            }
+        }
+
+        // Items are sorted by priority, then age, so this finds the oldest of the lowest priority.
+        // An incoming item below everything waiting is the one dropped.
+        const lowest = queue.items[queue.items.length - 1].priority;
+        if (lowest > incoming.priority) {
+            return false;
+        }
+        const [dropped] = queue.items.splice(queue.items.findIndex(item => item.priority === lowest), 1);
+        dropped.onDiscard?.();
+        logger.warn({ channelId: queue.channel.id }, "Channel queue full, dropped oldest item");
+        return true;
+    }
+
+    /**
+     * Starts as many ready items as concurrency allows, and schedules a
+     * wake-up for channels still inside their minimum delay
+     */
+    private pump(): void {
+        while (this.running < this.options.maxConcurrency) {
+            const next = this.pickNext();
+            if (!next) {
+                break;
+            }
+            void this.run(next.queue, next.item);
+        }
+    }
+
+    /**
+     * Picks the highest-priority item among channels that are idle and past their delay.
+     * Ties go to the item enqueued first.
+     */
+    private pickNext(): { queue: ChannelQueue; item: QueueItem } | null {
+        const now = Date.now();
+        let best: ChannelQueue | null = null;
+        let nextReadyAt = Infinity;
+
+        for (const queue of this.channels.values()) {
+            this.discardExpired(queue);
+            const readyAt = queue.lastFinishedAt + this.options.minDelayMs;
+
+            if (queue.running) {
+                continue;
+            }
+            if (queue.items.length === 0) {
+                // Forget idle channels once their delay no longer matters
+                if (readyAt <= now) {
+                    this.channels.delete(queue.channel.id);
                 }
+                continue;
+            }
+            if (readyAt > now) {
+                nextReadyAt = Math.min(nextReadyAt, readyAt);
+                continue;
+            }
+
+            const head = queue.items[0];
+            const bestHead = best?.items[0];
+            if (!bestHead || head.priority > bestHead.priority
+                || (head.priority === bestHead.priority && head.sequence < bestHead.sequence)) {
+                best = queue;
             }
+        }
+
+        if (!best && nextReadyAt !== Infinity) {
+            this.scheduleWake(nextReadyAt - now);
+        }
+
+        return best ? { queue: best, item: best.items.shift()! } : null;
+    }
+
+    /**
+     * Runs one item, then lets the scheduler pick the next
+     */
+    private async run(queue: ChannelQueue, item: QueueItem): Promise<void> {
+        this.running++;
+        queue.running = true;
+        this.updateTyping(queue);
+
+        try {
+            await item.action();
+        } catch (error) {
+            logger.error({ error, channelId: queue.channel.id }, "Error executing queued action");
         } finally {
-            this.processing = false;
+            this.running--;
+            queue.running = false;
+            queue.lastFinishedAt = Date.now();
+            this.updateTyping(queue);
+            this.pump();
+        }
+    }
+
+    /**
+     * Drops items whose deadline has passed
+     */
+    private discardExpired(queue: ChannelQueue): void {
+        const now = Date.now();
+        const expired = queue.items.filter(item => item.deadline <= now);
+        if (expired.length === 0) {
+            return;
         }
+
+        queue.items = queue.items.filter(item => item.deadline > now);
+        expired.forEach(item => item.onDiscard?.());
+        logger.info({
+            channelId: queue.channel.id,
+            discarded: expired.length
+        }, "Discarded stale queued items past their deadline");
+        this.updateTyping(queue);
     }
-} 
\ No newline at end of file
+
+    /**
+     * Shows typing while items wait in an idle-looking channel; the running
+     * action shows its own typing
+     */
+    private updateTyping(queue: ChannelQueue): void {
+        const waiting = queue.items.length > 0 && !queue.running;
+
+        if (!waiting && queue.typingInterval) {
+            clearInterval(queue.typingInterval);
+            queue.typingInterval = undefined;
+        }
+        if (!waiting || queue.typingInterval || !this.canShowTyping(queue.channel)) {
+            return;
+        }
+
+        const channel = queue.channel;
+        const sendTyping = () => {
+            void channel.sendTyping().catch((error: Error) => {
+                logger.warn({ error, channelId: channel.id }, "Failed to send typing indicator");
+            });
+        };
+        sendTyping();
+        queue.typingInterval = setInterval(() => {
+            this.discardExpired(queue);
+            if (queue.typingInterval) {
+                sendTyping();
+            }
+        }, TYPING_REFRESH_MS);
+    }
+
+    /**
+     * Wakes the scheduler once a channel's minimum delay has passed
+     */
+    private scheduleWake(delayMs: number): void {
+        if (this.wakeTimer) {
+            clearTimeout(this.wakeTimer);
+        }
+        this.wakeTimer = setTimeout(() => {
+            this.wakeTimer = undefined;
+            this.pump();
+        }, delayMs);
+    }
+
+    /**
+     * Gets or creates the queue for a channel
+     */
+    private getChannelQueue(channel: TextBasedChannel): ChannelQueue {
+        let queue = this.channels.get(channel.id);
+        if (!queue) {
+            queue = { channel, items: [], running: false, lastFinishedAt: 0 };
+            this.channels.set(channel.id, queue);
+        }
+        return queue;
+    }
+
+    /**
+     * Type guard for channels that support typing indicators
+     */
+    private canShowTyping(channel: TextBasedChannel): channel is TypingCapableChannel {
+        return 'sendTyping' in channel;
+    }
+}
+
+export type { QueueOptions, EnqueueOptions, OverflowPolicy };
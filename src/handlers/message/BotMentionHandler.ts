@@ -1,10 +1,22 @@
 import { Message, TextBasedChannel } from "discord.js";
-import { GroqHandler } from "../../groqApi";
-import { ImageProcessor } from "./ImageProcessor";
-import { ContextBuilder } from "./ContextBuilder";
+import { GroqHandler, PromptContext, RequestOptions } from "../../groqApi";
+import { ImageProcessor, LabeledImage } from "./ImageProcessor";
+import { DocumentProcessor } from "./DocumentProcessor";
+import { ContextBuilder, PromptMode } from "./ContextBuilder";
 import { ChannelCacheManager } from "../cache/ChannelCacheManager";
-import { ChannelCache } from "../../types";
+import { CachedMessage, ChannelCache, DocumentAttachment, ImageAnalysis } from "../../types";
 import { createLogger } from "../../utils/logger";
+import { estimateTokens } from "../../utils/tokens";
+import { UserMemoryStore } from "../memory/UserMemoryStore";
+import { MemoryExtractor } from "../memory/MemoryExtractor";
+import { PluginManager } from "../../plugins";
+import { CancelledError, TimeoutError } from "../../providers";
+import { raceAbort } from "../../utils/abort";
+import { FailureReplyPolicy } from "./FailureReplyPolicy";
+import { UsageScope } from "../usage/types";
+import { summarizeEmbeds } from "../../utils/embeds";
+import { describeImageKind } from "../../utils/images";
+import { describeDocumentSkipReason } from "../../utils/documents";
 
 const logger = createLogger("BotMentionHandler");
 
@@ -15,50 +27,106 @@ type TypingCapableChannel = TextBasedChannel & {
     sendTyping: () => Promise<void>;
 };
 
+/**
+ * Content shown in the reply until the first tokens arrive
+ */
+const PLACEHOLDER_CONTENT = "...";
+
+/**
+ * Minimum time between progressive edits of a streaming reply.
+ * Discord allows roughly 5 message edits per 5 seconds per channel.
+ */
+const EDIT_INTERVAL_MS = 1200;
+
+/**
+ * How long a reply may take, from image analysis to the last streamed token
+ */
+const RESPONSE_TIMEOUT_MS = 30000;
+
+/**
+ * Share of the context budget files attached to the current messages may take
+ */
+const DOCUMENT_BUDGET_SHARE = 0.5;
+
+/**
+ * A reply being generated, and the messages it answers
+ */
+interface InFlightReply {
+    controller: AbortController;
+    messages: Message[];
+}
+
 /**
  * Handles bot mention interactions
  */
 export class BotMentionHandler {
+    /** The reply being generated for each message it answers */
+    private readonly inFlight: Map<string, InFlightReply> = new Map();
+
     constructor(
         private groqHandler: GroqHandler,
         private imageProcessor: ImageProcessor,
         private contextBuilder: ContextBuilder,
-        private cacheManager: ChannelCacheManager
+        private cacheManager: ChannelCacheManager,
+        private promptMode: PromptMode = "structured",
+        private memoryStore?: UserMemoryStore,
+        private memoryExtractor?: MemoryExtractor,
+        private pluginManager?: PluginManager,
+        private failureReplies: FailureReplyPolicy = new FailureReplyPolicy(),
+        private documentProcessor?: DocumentProcessor
     ) {}
 
     /**
      * Processes a message where the bot is mentioned
      */
     public async handleMention(message: Message): Promise<void> {
+        await this.handleMentions([message]);
+    }
+
+    /**
+     * Answers a burst of mentions in one channel with a single reply to the
+     * latest of them. Every message in the burst is marked as current.
+     * @param messages The burst, oldest first
+     */
+    public async handleMentions(messages: Message[]): Promise<void> {
+        const message = messages[messages.length - 1];
+        if (!message) {
+            return;
+        }
+
         const startTime = Date.now();
-        const cache = this.cacheManager.getCache(message.channelId);
+        const cache = this.contextBuilder.getConversationCache(message.channel);
 
         if (!cache) {
             logger.debug({ messageId: message.id }, "No cache found for channel");
             return;
         }
 
-        // Define timeout promise
-        const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(() => {
-                reject(new Error("Response generation timed out"));
-            }, 30000); // 30 second timeout
-        });
+        // Aborted on timeout, shutdown, or when a message is edited or deleted
+        const controller = new AbortController();
+        const { signal } = controller;
+        const usage = this.getUsageScope(message);
+        const reply: InFlightReply = { controller, messages };
+        for (const { id } of messages) {
+            this.inFlight.get(id)?.controller.abort(new CancelledError("Superseded by a newer request"));
+            this.inFlight.set(id, reply);
+        }
+        const timeout = setTimeout(() => {
+            controller.abort(new TimeoutError("Response generation timed out"));
+        }, RESPONSE_TIMEOUT_MS);
+
+        let botResponse: Message | undefined;
 
         try {
-            // Get context and analysis before starting typing
-            const previousContext = await this.contextBuilder.buildContext(cache, message, 20, true);
-            
-            // Log context details at debug level
-            logger.debug({ 
-                messageId: message.id,
-                contextLength: previousContext.length,
-                cacheSize: cache.messages.length,
-                hasContext: previousContext.length > 0
-            }, "Built context for message");
+            // Get analysis and context before starting typing
+            const detailedAnalysis = await this.getDetailedImageAnalysis(messages, cache, { signal, usage });
+
+            const analysisBlock = detailedAnalysis ? `[Detailed Analysis: ${detailedAnalysis}]` : "";
+            const memoryBlock = await this.getMemoryBlock(messages);
+            const renderConversation = this.promptMode === "structured"
+                ? await this.contextBuilder.prepareConversation(cache, messages, 20, true, { signal, usage })
+                : await this.contextBuilder.prepareContext(cache, messages, 20, true, { signal, usage });
 
-            const detailedAnalysis = await this.getDetailedImageAnalysis(message, cache);
-            
             // Format the current message
             const currentMessage = {
                 content: message.content,
@@ -68,78 +136,324 @@ export class BotMentionHandler {
                 },
                 referencedMessage: message.reference?.messageId
             };
-            
-            const fullContext = `${previousContext}${
-                detailedAnalysis ? `\n\n[Detailed Analysis: ${detailedAnalysis}]` : ""
-            }`;
 
-            // Log full context details at debug level
-            logger.debug({ 
-                messageId: message.id,
-                fullContextLength: fullContext.length,
-                hasAnalysis: !!detailedAnalysis
-            }, "Prepared full context for response generation");
+            // Built for each context window the reply is attempted with, leaving room
+            // for the detailed analysis, files and memories within the model's budget
+            const buildPrompt = async (contextBudget: number): Promise<PromptContext> => {
+                const documentBlock = await this.getDocumentBlock(
+                    messages,
+                    cache,
+                    Math.floor(contextBudget * DOCUMENT_BUDGET_SHARE),
+                    { signal }
+                );
+                const tokenBudget = contextBudget
+                    - estimateTokens(analysisBlock)
+                    - estimateTokens(documentBlock)
+                    - estimateTokens(memoryBlock);
+                const previousContext = renderConversation(tokenBudget);
+
+                // Log context details at debug level
+                logger.debug({ 
+                    messageId: message.id,
+                    burstSize: messages.length,
+                    promptMode: this.promptMode,
+                    contextLength: previousContext.length,
+                    tokenBudget,
+                    cacheSize: cache.messages.length,
+                    hasContext: previousContext.length > 0
+                }, "Built context for message");
+
+                // Plugins may rewrite the prompt before generation
+                const generateEvent = {
+                    channelId: message.channelId,
+                    message,
+                    context: this.appendToContext(
+                        this.appendToContext(
+                            this.appendToContext(previousContext, analysisBlock),
+                            documentBlock
+                        ),
+                        memoryBlock
+                    )
+                };
+                await this.pluginManager?.runBeforeGenerate(generateEvent);
+
+                // Log full context details at debug level
+                logger.debug({ 
+                    messageId: message.id,
+                    fullContextLength: generateEvent.context.length,
+                    hasAnalysis: !!detailedAnalysis,
+                    hasMemories: !!memoryBlock
+                }, "Prepared full context for response generation");
+
+                return generateEvent.context;
+            };
+
+            // Post a placeholder reply that is edited as the response streams in
+            signal.throwIfAborted();
+            botResponse = await message.reply({ content: PLACEHOLDER_CONTENT });
 
-            // Start typing just before generating response
-            const typingInterval = this.startTypingInterval(message.channel);
+            // Keep typing until the first tokens arrive, or until plugins have
+            // seen the complete reply when they may still change or veto it
+            const reviewReply = this.pluginManager?.hasHook("afterGenerate") ?? false;
+            const typingInterval = this.startTypingInterval(message.channel, signal);
             
             try {
-                // Race between response generation and timeout
-                const response = await Promise.race([
-                    this.groqHandler.generateResponse(currentMessage, fullContext),
-                    timeoutPromise
-                ]) as string;
+                // Stop waiting as soon as the request is cancelled, even if the stream lags behind
+                const responseText = await raceAbort(
+                    this.streamToReply(
+                        botResponse,
+                        this.groqHandler.generateResponseStream(currentMessage, buildPrompt, {
+                            channelId: message.channelId,
+                            messageId: message.id,
+                            referencedMessageId: message.reference?.messageId,
+                            usage
+                        }, { signal, usage }),
+                        () => {
+                            if (!reviewReply) clearInterval(typingInterval);
+                        },
+                        () => signal.aborted,
+                        !reviewReply
+                    ),
+                    signal
+                );
+                signal.throwIfAborted();
 
-                // Clear typing before sending response
+                const replyContent = this.pluginManager
+                    ? await this.pluginManager.runAfterGenerate({ channelId: message.channelId, message, content: responseText })
+                    : responseText;
                 clearInterval(typingInterval);
-                const botResponse = await message.reply({ content: response });
+
+                if (replyContent === null) {
+                    await botResponse.delete().catch((error: Error) => {
+                        logger.warn({ error, messageId: message.id }, "Failed to remove vetoed reply");
+                    });
+                    logger.info({ messageId: message.id }, "Reply vetoed by plugin");
+                    return;
+                }
+
+                const finalResponse = await botResponse.edit({ content: replyContent });
+                void this.pluginManager?.runReplySent({ channelId: message.channelId, message, reply: finalResponse });
                 
                 // Process and cache the bot's response
-                const images = await this.imageProcessor.processImages(botResponse);
+                const images = await this.imageProcessor.processImages(finalResponse);
                 this.cacheManager.addMessage(message.channelId, {
-                    id: botResponse.id,
-                    content: botResponse.content,
-                    authorId: botResponse.author.id,
-                    authorName: botResponse.author.username,
-                    timestamp: botResponse.createdAt,
+                    id: finalResponse.id,
+                    content: finalResponse.content,
+                    authorId: finalResponse.author.id,
+                    authorName: finalResponse.author.username,
+                    timestamp: finalResponse.createdAt,
                     images,
-                    referencedMessage: botResponse.reference?.messageId
+                    referencedMessage: finalResponse.reference?.messageId
                 });
 
+                // Learn from the exchange in the background. DMs stay private,
+                // so nothing said there ends up in memories used in servers.
+                if (!message.channel.isDMBased()) {
+                    void this.memoryExtractor?.extractFromExchange(
+                        message.author.id,
+                        currentMessage.author.name,
+                        message.content,
+                        finalResponse.content,
+                        usage
+                    );
+                }
+
                 const duration = Date.now() - startTime;
                 logger.info({ duration, messageId: message.id }, "Message handling completed");
 
             } catch (error) {
                 clearInterval(typingInterval);
+                // Stop any further edits and requests from the stream still in flight
+                controller.abort(error);
                 throw error;
             }
 
         } catch (error) {
             const duration = Date.now() - startTime;
-            const errorMessage = error instanceof Error ? error.message : "Unknown error";
-            logger.error({ error, duration, messageId: message.id }, "Error handling bot mention");
-            
-            if (errorMessage === "Response generation timed out") {
-                await message.reply({ 
-                    content: "sorry fren, im taking too long to think rn :sadge: try again in a bit" 
-                });
-            } else if (errorMessage.includes("Rate limit reached")) {
-                await message.reply({ 
-                    content: "sorry fren, im being rate limited rn :pepesad: try again in a few minutes" 
-                });
+            // The abort reason says why, whatever the interrupted step threw
+            const failure = signal.aborted ? signal.reason : error;
+            if (failure instanceof CancelledError) {
+                logger.info({ duration, messageId: message.id, reason: failure.message }, "Bot mention cancelled");
             } else {
-                await message.reply({ 
-                    content: "I encountered an error while processing your message :sadge:" 
-                });
+                logger.error({ error: failure, duration, messageId: message.id }, "Error handling bot mention");
+            }
+
+            await this.sendFailureReply(message, botResponse, this.failureReplies.getReply(failure));
+        } finally {
+            clearTimeout(timeout);
+            for (const { id } of messages) {
+                if (this.inFlight.get(id) === reply) {
+                    this.inFlight.delete(id);
+                }
+            }
+        }
+    }
+
+    /**
+     * Tells the author a reply failed, replacing the placeholder if one was
+     * posted, otherwise replying; a silent policy (null) removes the
+     * placeholder instead. Discord errors are only logged, since this runs
+     * when something already went wrong, e.g. the placeholder was deleted.
+     */
+    private async sendFailureReply(message: Message, placeholder: Message | undefined, content: string | null): Promise<void> {
+        if (content === null) {
+            await placeholder?.delete().catch((error: Error) => {
+                logger.warn({ error, messageId: message.id }, "Failed to remove placeholder reply");
+            });
+            return;
+        }
+
+        if (placeholder) {
+            try {
+                await placeholder.edit({ content });
+                return;
+            } catch (error) {
+                logger.warn({ error, messageId: message.id }, "Failed to edit placeholder with failure reply, replying instead");
+            }
+        }
+        try {
+            await message.reply({ content });
+        } catch (error) {
+            logger.warn({ error, messageId: message.id }, "Failed to send failure reply");
+        }
+    }
+
+    /**
+     * Cancels the reply being generated for a message, e.g. after it was edited or deleted
+     * @returns Every message the cancelled reply was answering, empty if none was in progress
+     */
+    public cancel(messageId: string, reason: string): Message[] {
+        const reply = this.inFlight.get(messageId);
+        if (!reply) {
+            return [];
+        }
+
+        reply.controller.abort(new CancelledError(reason));
+        for (const { id } of reply.messages) {
+            this.inFlight.delete(id);
+        }
+        return reply.messages;
+    }
+
+    /**
+     * Cancels every reply in progress, e.g. on shutdown
+     */
+    public cancelAll(reason: string): void {
+        for (const { controller } of this.inFlight.values()) {
+            controller.abort(new CancelledError(reason));
+        }
+        this.inFlight.clear();
+    }
+
+    /**
+     * Adds a block (detailed analysis, memories) after the conversation,
+     * inside the final user turn when the context is structured
+     */
+    private appendToContext(context: PromptContext, block: string): PromptContext {
+        if (!block) {
+            return context;
+        }
+
+        if (typeof context === "string") {
+            return `${context}\n\n${block}`;
+        }
+
+        const turns = context.map(turn => ({ ...turn }));
+        const lastTurn = turns[turns.length - 1];
+        if (lastTurn?.role === "user") {
+            lastTurn.content = `${lastTurn.content}\n\n${block}`;
+        } else {
+            turns.push({ role: "user", content: block });
+        }
+        return turns;
+    }
+
+    /**
+     * Formats what the bot remembers about the authors of the current messages
+     */
+    private async getMemoryBlock(messages: Message[]): Promise<string> {
+        if (!this.memoryStore) {
+            return "";
+        }
+
+        const blocks: string[] = [];
+        const authors = new Map(messages.map(message => [message.author.id, message]));
+        for (const message of authors.values()) {
+            const memories = await this.memoryStore.getMemories(message.author.id);
+            if (memories.length === 0) {
+                continue;
             }
+
+            const name = message.member?.displayName || message.author.username;
+            const lines = memories.map(memory => `- ${memory.content}`);
+            blocks.push(`[What you remember about <@${message.author.id}> (${name}):\n${lines.join("\n")}]`);
         }
+        return blocks.join("\n\n");
     }
 
     /**
-     * Starts a typing indicator interval that continues until cleared
+     * Consumes a response stream and progressively edits the reply with it.
+     * Edits are throttled to stay within Discord's rate limits; the caller
+     * makes the final edit with the complete response.
+     * @param showProgress Whether partial responses are shown while streaming
+     * @returns The complete response
+     */
+    private async streamToReply(
+        reply: Message,
+        stream: AsyncIterable<string>,
+        onFirstContent: () => void,
+        isCancelled: () => boolean,
+        showProgress = true
+    ): Promise<string> {
+        let latest = "";
+        let shown = PLACEHOLDER_CONTENT;
+        let lastEditAt = 0;
+        let pendingEdit: Promise<void> | null = null;
+
+        for await (const text of stream) {
+            if (isCancelled()) {
+                break;
+            }
+            if (!latest && text) {
+                onFirstContent();
+            }
+            latest = text;
+
+            // Skip this update if an edit is in flight or the last one was too recent.
+            // Withdrawn text, from before a tool call, goes back to the placeholder.
+            const now = Date.now();
+            const content = latest || PLACEHOLDER_CONTENT;
+            if (!showProgress || pendingEdit || content === shown || now - lastEditAt < EDIT_INTERVAL_MS) {
+                continue;
+            }
+
+            shown = content;
+            lastEditAt = now;
+            pendingEdit = reply.edit({ content: shown })
+                .then(() => undefined)
+                .catch((error: Error) => {
+                    logger.warn({ error, messageId: reply.id }, "Failed to edit streaming reply");
+                })
+                .finally(() => {
+                    pendingEdit = null;
+                });
+        }
+
+        if (pendingEdit) {
+            await pendingEdit;
+        }
+        if (!latest && !isCancelled()) {
+            throw new Error("Received an empty response");
+        }
+
+        return latest;
+    }
+
+    /**
+     * Starts a typing indicator interval that continues until cleared or the signal aborts
      * @returns NodeJS.Timeout that can be cleared to stop typing
      */
-    private startTypingInterval(channel: TextBasedChannel): NodeJS.Timeout {
+    private startTypingInterval(channel: TextBasedChannel, signal?: AbortSignal): NodeJS.Timeout {
         // Send initial typing indicator
         if (this.canShowTyping(channel)) {
             void channel.sendTyping().catch((error: Error) => {
@@ -149,13 +463,15 @@ export class BotMentionHandler {
 
         // Continue showing typing every 5 seconds instead of 8
         // Discord's typing timeout is 10 seconds, so this gives better visual feedback
-        return setInterval(() => {
+        const interval = setInterval(() => {
             if (this.canShowTyping(channel)) {
                 void channel.sendTyping().catch((error: Error) => {
                     logger.warn({ error, channelId: channel.id }, "Failed to send typing indicator");
                 });
             }
         }, 5000);
+        signal?.addEventListener("abort", () => clearInterval(interval), { once: true });
+        return interval;
     }
 
     /**
@@ -166,91 +482,169 @@ export class BotMentionHandler {
     }
 
     /**
-     * Gets detailed image analysis from current or referenced message
+     * Gets who a reply to a message is counted against in usage budgets
      */
-    private async getDetailedImageAnalysis(message: Message, cache: ChannelCache): Promise<string> {
-        let analysis = "";
+    private getUsageScope(message: Message): UsageScope {
+        return { guildId: message.guildId, channelId: message.channelId, userId: message.author.id };
+    }
 
-        // Check for images in the current message first
-        if (message.attachments.size > 0) {
-            const firstImage = Array.from(message.attachments.values())
-                .find(attachment => attachment.contentType?.startsWith("image/"));
-            
-            if (firstImage) {
-                logger.debug({ 
-                    messageId: message.id,
-                    imageUrl: firstImage.url
-                }, "Performing detailed analysis on current message image");
-                
-                analysis = await this.imageProcessor.performDetailedAnalysis(firstImage.url);
+    /**
+     * Gets a detailed analysis of every image in the current messages and the
+     * messages they reply to, each labeled the same way throughout the prompt
+     */
+    private async getDetailedImageAnalysis(
+        messages: Message[],
+        cache: ChannelCache,
+        options: RequestOptions = {}
+    ): Promise<string> {
+        const images: LabeledImage[] = [];
+        const seen = new Set<string>();
+        const addImages = (owner: string, messageImages: ImageAnalysis[]) => {
+            for (const image of messageImages) {
+                const kind = (image.origin ?? "attachment") === "attachment" ? undefined : describeImageKind(image);
+                const details = [kind, owner].filter(Boolean).join(", ");
+                images.push({ label: `Image ${images.length + 1} (${details})`, image });
+            }
+        };
+
+        for (const message of messages) {
+            const authorName = message.member?.displayName || message.author.username;
+            if (!seen.has(message.id)) {
+                seen.add(message.id);
+                const cached = this.cacheManager.findMessage(message.id, message.channelId);
+                addImages(`${authorName}'s message`, await this.imageProcessor.processImages(message, cached?.images));
+            }
+
+            const referencedId = message.reference?.messageId;
+            if (referencedId && !seen.has(referencedId)) {
+                seen.add(referencedId);
+                const referenced = await this.getReferencedMessage(message, cache, options);
+                addImages(`the message ${authorName} replied to`, referenced?.images ?? []);
             }
         }
-        
-        // If message is a reply, also check referenced message for images
-        if (message.reference) {
-            try {
-                // First try to find in cache
-                const referencedMessage = cache.messages.find(m => m.id === message.reference?.messageId);
-                
-                if (referencedMessage?.images.length) {
-                    logger.debug({ 
-                        messageId: message.id,
-                        referencedMessageId: message.reference.messageId,
-                        imageUrl: referencedMessage.images[0].url
-                    }, "Performing detailed analysis on referenced message image");
-                    
-                    const refAnalysis = await this.imageProcessor.performDetailedAnalysis(
-                        referencedMessage.images[0].url
-                    );
-                    
-                    // Combine analyses if both current and referenced messages have images
-                    analysis = analysis 
-                        ? `Current Image: ${analysis}\nReferenced Image: ${refAnalysis}`
-                        : refAnalysis;
-                } else {
-                    // If not in cache, try to fetch from Discord
-                    const fetchedMessage = await message.fetchReference();
-                    if (fetchedMessage.attachments.size > 0) {
-                        const firstImage = Array.from(fetchedMessage.attachments.values())
-                            .find(attachment => attachment.contentType?.startsWith("image/"));
-                        
-                        if (firstImage) {
-                            logger.debug({ 
-                                messageId: message.id,
-                                referencedMessageId: fetchedMessage.id,
-                                imageUrl: firstImage.url
-                            }, "Performing detailed analysis on fetched referenced message image");
-                            
-                            const refAnalysis = await this.imageProcessor.performDetailedAnalysis(firstImage.url);
-                            
-                            // Combine analyses if both current and referenced messages have images
-                            analysis = analysis 
-                                ? `Current Image: ${analysis}\nReferenced Image: ${refAnalysis}`
-                                : refAnalysis;
-                                
-                            // Process and cache the referenced message
-                            const images = await this.imageProcessor.processImages(fetchedMessage);
-                            this.cacheManager.addMessage(message.channelId, {
-                                id: fetchedMessage.id,
-                                content: fetchedMessage.content,
-                                authorId: fetchedMessage.author.id,
-                                authorName: fetchedMessage.member?.displayName || fetchedMessage.author.username,
-                                timestamp: fetchedMessage.createdAt,
-                                images,
-                                referencedMessage: fetchedMessage.reference?.messageId
-                            });
-                        }
-                    }
+
+        if (images.length === 0) {
+            return "";
+        }
+
+        logger.debug({
+            messageId: messages[messages.length - 1].id,
+            images: images.map(({ label, image }) => ({ label, imageUrl: image.url }))
+        }, "Performing detailed analysis on message images");
+
+        return this.imageProcessor.performMultiImageAnalysis(images, options);
+    }
+
+    /**
+     * Quotes the files attached to the current messages and the messages they
+     * reply to, choosing the parts most relevant to what was asked when a
+     * file doesn't fit the budget whole
+     * @param tokenBudget Shared evenly between the files
+     */
+    private async getDocumentBlock(
+        messages: Message[],
+        cache: ChannelCache,
+        tokenBudget: number,
+        options: RequestOptions = {}
+    ): Promise<string> {
+        const documentProcessor = this.documentProcessor;
+        if (!documentProcessor) {
+            return "";
+        }
+
+        const documents: Array<{ owner: string; document: DocumentAttachment }> = [];
+        const seen = new Set<string>();
+        for (const message of messages) {
+            const authorName = message.member?.displayName || message.author.username;
+            if (!seen.has(message.id)) {
+                seen.add(message.id);
+                const cached = this.cacheManager.findMessage(message.id, message.channelId);
+                for (const document of cached?.documents ?? documentProcessor.processDocuments(message)) {
+                    documents.push({ owner: `${authorName}'s message`, document });
+                }
+            }
+
+            const referencedId = message.reference?.messageId;
+            if (referencedId && !seen.has(referencedId)) {
+                seen.add(referencedId);
+                const referenced = await this.getReferencedMessage(message, cache, options);
+                for (const document of referenced?.documents ?? []) {
+                    documents.push({ owner: `the message ${authorName} replied to`, document });
                 }
-            } catch (error) {
-                logger.error({ 
-                    error, 
-                    messageId: message.id,
-                    referencedMessageId: message.reference.messageId 
-                }, "Error analyzing referenced message image");
             }
         }
 
-        return analysis;
+        if (documents.length === 0) {
+            return "";
+        }
+
+        const question = messages.map(message => message.content).join("\n");
+        const budgetPerDocument = Math.floor(tokenBudget / documents.length);
+        const quotes = await Promise.all(documents.map(async ({ owner, document }) => {
+            const heading = `[File "${document.name}" in ${owner}`;
+            if (document.skipped) {
+                return `${heading} not read: ${describeDocumentSkipReason(document.skipped)}]`;
+            }
+
+            const quoted = await documentProcessor.quoteDocument(document, question, budgetPerDocument, options.signal);
+            if (quoted === null) {
+                return `${heading} couldn't be downloaded]`;
+            }
+            const note = document.truncated ? ", only the beginning was read" : "";
+            return `${heading}${note}:\n${quoted}]`;
+        }));
+
+        logger.debug({
+            messageId: messages[messages.length - 1].id,
+            files: documents.map(({ document }) => document.name),
+            tokenBudget
+        }, "Quoted attached files");
+
+        return quotes.join("\n\n");
+    }
+
+    /**
+     * Gets the message a mention replies to, from the cache or by fetching
+     * (and caching) it
+     */
+    private async getReferencedMessage(
+        message: Message,
+        cache: ChannelCache,
+        options: RequestOptions
+    ): Promise<CachedMessage | undefined> {
+        const referencedId = message.reference?.messageId;
+        const cached = cache.messages.find(m => m.id === referencedId)
+            ?? (referencedId ? this.cacheManager.findMessage(referencedId, message.channelId) : undefined);
+        if (cached) {
+            return cached;
+        }
+
+        try {
+            const fetchedMessage = await raceAbort(message.fetchReference(), options.signal);
+            const images = await this.imageProcessor.processImages(fetchedMessage);
+            const entry: CachedMessage = {
+                id: fetchedMessage.id,
+                content: fetchedMessage.content,
+                authorId: fetchedMessage.author.id,
+                authorName: fetchedMessage.member?.displayName || fetchedMessage.author.username,
+                timestamp: fetchedMessage.createdAt,
+                images,
+                embeds: summarizeEmbeds(fetchedMessage),
+                documents: this.documentProcessor?.processDocuments(fetchedMessage),
+                referencedMessage: fetchedMessage.reference?.messageId
+            };
+            this.cacheManager.addMessage(message.channelId, entry);
+            return entry;
+        } catch (error) {
+            if (options.signal?.aborted) {
+                throw error;
+            }
+            logger.error({
+                error,
+                messageId: message.id,
+                referencedMessageId: referencedId
+            }, "Error fetching referenced message");
+            return undefined;
+        }
     }
 } 
\ No newline at end of file
@@ -1,84 +1,431 @@
-import { Message } from "discord.js";
-import { ChannelCache, CachedMessage } from "../../types";
+import { Message, TextBasedChannel } from "discord.js";
+import { ChannelCache, CachedMessage, ImageAnalysis } from "../../types";
 import { createLogger } from "../../utils/logger";
 import { ChannelCacheManager } from "../cache/ChannelCacheManager";
 import { ImageProcessor } from "./ImageProcessor";
+import { DocumentProcessor } from "./DocumentProcessor";
+import { estimateTokens, truncateToTokens } from "../../utils/tokens";
+import { formatImageLine } from "../../utils/images";
+import { formatEmbedLine, summarizeEmbeds } from "../../utils/embeds";
+import { formatDocumentLine } from "../../utils/documents";
+import { ChatMessage } from "../../providers";
+import { RequestOptions } from "../../groqApi";
+import { ConversationSummarizer } from "../summary/ConversationSummarizer";
 
 const logger = createLogger("ContextBuilder");
 
+/**
+ * Smallest size a message is truncated to when fitting the token budget
+ */
+const MIN_TRUNCATED_TOKENS = 16;
+
+/**
+ * Approximate tokens each chat turn costs for role markers
+ */
+const TURN_OVERHEAD_TOKENS = 4;
+
+/**
+ * How the conversation history is presented to the chat model:
+ * - "structured": alternating user/assistant turns, the bot's own messages as assistant turns
+ * - "flattened": the whole history as a single user message
+ */
+type PromptMode = "structured" | "flattened";
+
+/**
+ * How threads (including forum posts) draw on their parent channel
+ */
+interface ThreadContextOptions {
+    /** Include parent-channel messages from before the thread started */
+    inheritParentContext: boolean;
+    /** Maximum number of parent-channel messages included */
+    parentContextSize: number;
+}
+
+/**
+ * A message formatted for the context, before joining
+ */
+interface FormattedMessage {
+    authorId: string;
+    /** "<@id> (name)" */
+    speaker: string;
+    /** "[Replying to: ...]" or empty */
+    replyContext: string;
+    content: string;
+    imageLines: string[];
+    embedLines: string[];
+    documentLines: string[];
+}
+
+/**
+ * A formatted message plus what's needed to decide whether it can be trimmed
+ */
+interface ContextEntry extends FormattedMessage {
+    isCurrentMessage: boolean;
+    /** Pinned entries (the current messages and their reply targets) are never dropped */
+    pinned: boolean;
+    /** Heading shown before the first current message */
+    heading?: string;
+}
+
 /**
  * Builds conversation context from cached messages
  */
 export class ContextBuilder {
+    /**
+     * @param botUserId The bot's own user ID; its messages become assistant turns
+     */
     constructor(
+        private readonly botUserId: string,
         private cacheManager: ChannelCacheManager,
-        private imageProcessor: ImageProcessor
-    ) {
-        if (!process.env.DISCORD_CLIENT_ID) {
-            throw new Error("DISCORD_CLIENT_ID must be set in environment variables");
+        private imageProcessor: ImageProcessor,
+        private summarizer?: ConversationSummarizer,
+        private threadOptions: ThreadContextOptions = { inheritParentContext: true, parentContextSize: 10 },
+        private documentProcessor?: DocumentProcessor
+    ) {}
+
+    /**
+     * Gets the cache a conversation in a channel is built from. A thread can
+     * inherit the parent-channel messages leading up to it (for threads started
+     * from a message, that includes the starter message).
+     */
+    public getConversationCache(channel: TextBasedChannel): ChannelCache | undefined {
+        const cache = this.cacheManager.getCache(channel.id);
+        if (!channel.isThread() || !channel.parentId || !this.threadOptions.inheritParentContext) {
+            return cache;
         }
+
+        const parentCache = this.cacheManager.getCache(channel.parentId);
+        const threadStart = channel.createdAt ?? new Date();
+        const parentMessages = (parentCache?.messages ?? [])
+            .filter(m => m.timestamp <= threadStart)
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+            .slice(-this.threadOptions.parentContextSize);
+
+        if (parentMessages.length === 0) {
+            return cache;
+        }
+
+        return {
+            channelId: channel.id,
+            ...cache,
+            messages: [...parentMessages, ...cache?.messages ?? []]
+        };
     }
 
     /**
      * Builds formatted conversation context
+     * @param currentMessage The message being answered, or a burst of messages answered together
+     * @param contextSize Maximum number of messages to include
+     * @param tokenBudget When set, older messages and image descriptions are
+     * dropped or truncated until the context fits. The current messages and the
+     * messages they reply to are always kept.
+     * @param options Stops describing images and reading files once aborted,
+     * and says who describing images is counted against
      */
     public async buildContext(
         cache: ChannelCache, 
-        currentMessage: Message | null, 
+        currentMessage: Message | Message[] | null, 
         contextSize = 15,
-        excludeCurrentMessage = false
+        excludeCurrentMessage = false,
+        tokenBudget?: number,
+        options: RequestOptions = {}
     ): Promise<string> {
-        const contextMessages: string[] = [];
-        
+        const render = await this.prepareContext(cache, currentMessage, contextSize, excludeCurrentMessage, options);
+        return render(tokenBudget);
+    }
+
+    /**
+     * Collects the context once so it can be rendered for several token
+     * budgets, e.g. one for each model a reply may fall back to
+     * @returns Renders the context as buildContext does
+     */
+    public async prepareContext(
+        cache: ChannelCache,
+        currentMessage: Message | Message[] | null,
+        contextSize = 15,
+        excludeCurrentMessage = false,
+        options: RequestOptions = {}
+    ): Promise<(tokenBudget?: number) => string> {
+        const collected = await this.collectEntries(cache, currentMessage, contextSize, excludeCurrentMessage, options);
+        const summary = this.getSummaryBlock(cache);
+
+        return tokenBudget => {
+            const entries = this.copyEntries(collected);
+            if (tokenBudget !== undefined) {
+                const budget = tokenBudget - estimateTokens(summary);
+                this.fitToBudget(entries, budget, () => estimateTokens(this.renderEntries(entries)));
+            }
+
+            const context = this.renderEntries(entries);
+            return summary ? `${summary}\n\n${context}` : context;
+        };
+    }
+
+    /**
+     * Builds the conversation as alternating chat turns. The bot's own messages
+     * become assistant turns and consecutive messages from other speakers are
+     * grouped into user turns, each line attributed to its author.
+     * @param currentMessage The message being answered, or a burst of messages answered together
+     * @param contextSize Maximum number of messages to include
+     * @param tokenBudget When set, the turns are trimmed the same way as in buildContext
+     * @param options As in buildContext
+     */
+    public async buildConversation(
+        cache: ChannelCache,
+        currentMessage: Message | Message[] | null,
+        contextSize = 15,
+        excludeCurrentMessage = false,
+        tokenBudget?: number,
+        options: RequestOptions = {}
+    ): Promise<ChatMessage[]> {
+        const render = await this.prepareConversation(cache, currentMessage, contextSize, excludeCurrentMessage, options);
+        return render(tokenBudget);
+    }
+
+    /**
+     * Collects the conversation once so it can be rendered for several token budgets
+     * @returns Renders the conversation as buildConversation does
+     */
+    public async prepareConversation(
+        cache: ChannelCache,
+        currentMessage: Message | Message[] | null,
+        contextSize = 15,
+        excludeCurrentMessage = false,
+        options: RequestOptions = {}
+    ): Promise<(tokenBudget?: number) => ChatMessage[]> {
+        const collected = await this.collectEntries(cache, currentMessage, contextSize, excludeCurrentMessage, options);
+        const summary = this.getSummaryBlock(cache);
+
+        return tokenBudget => {
+            const entries = this.copyEntries(collected);
+            if (tokenBudget !== undefined) {
+                const budget = tokenBudget - estimateTokens(summary);
+                this.fitToBudget(entries, budget, () => this.renderTurns(entries).reduce(
+                    (total, turn) => total + estimateTokens(turn.content as string) + TURN_OVERHEAD_TOKENS,
+                    0
+                ));
+            }
+
+            const turns = this.renderTurns(entries);
+            if (summary) {
+                // The summary covers what came before everything else, so it leads the first user turn
+                if (turns[0]?.role === "user") {
+                    turns[0].content = `${summary}\n\n${turns[0].content}`;
+                } else {
+                    turns.unshift({ role: "user", content: summary });
+                }
+            }
+            return turns;
+        };
+    }
+
+    /**
+     * Copies entries so fitting them to one budget leaves the originals intact
+     */
+    private copyEntries(entries: ContextEntry[]): ContextEntry[] {
+        return entries.map(entry => ({
+            ...entry,
+            imageLines: [...entry.imageLines],
+            embedLines: [...entry.embedLines],
+            documentLines: [...entry.documentLines]
+        }));
+    }
+
+    /**
+     * Gets the running summary of older messages for the cache's channel, formatted for context
+     */
+    private getSummaryBlock(cache: ChannelCache): string {
+        const summary = this.summarizer?.getSummary(cache.channelId);
+        return summary ? `[Summary of earlier conversation: ${summary}]` : "";
+    }
+
+    /**
+     * Collects and formats the messages that make up the context, oldest first
+     */
+    private async collectEntries(
+        cache: ChannelCache,
+        current: Message | Message[] | null,
+        contextSize: number,
+        excludeCurrentMessage: boolean,
+        options: RequestOptions
+    ): Promise<ContextEntry[]> {
+        const currentMessages = current === null ? [] : Array.isArray(current) ? current : [current];
+        const currentIds = new Set(currentMessages.map(message => message.id));
+        const replyTargetIds = new Set(currentMessages.map(message => message.reference?.messageId));
+        // The latest message is the one replied to, and is used to look up references
+        const currentMessage = currentMessages[currentMessages.length - 1] ?? null;
+
         // Sort messages by timestamp to ensure chronological order
         let recentMessages = [...cache.messages]
             .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
             .slice(-contextSize);
 
-        // If there's a current message, ensure it's at the end
-        if (currentMessage && !excludeCurrentMessage) {
-            // Remove current message if it exists in recent messages
-            recentMessages = recentMessages.filter(msg => msg.id !== currentMessage.id);
+        // If there are current messages, ensure they're at the end
+        if (currentMessages.length > 0 && !excludeCurrentMessage) {
+            // Remove current messages if they exist in recent messages
+            recentMessages = recentMessages.filter(msg => !currentIds.has(msg.id));
             
-            // Add current message as a cached message format
-            const currentCached: CachedMessage = {
-                id: currentMessage.id,
-                content: currentMessage.content,
-                authorId: currentMessage.author.id,
-                authorName: currentMessage.member?.displayName || currentMessage.author.username,
-                timestamp: currentMessage.createdAt,
-                images: [], // Images handled separately
-                referencedMessage: currentMessage.reference?.messageId
-            };
-            
-            // Add current message at the end
-            recentMessages.push(currentCached);
+            // Add current messages at the end, as cached messages
+            for (const message of currentMessages) {
+                recentMessages.push({
+                    id: message.id,
+                    content: message.content,
+                    authorId: message.author.id,
+                    authorName: message.member?.displayName || message.author.username,
+                    timestamp: message.createdAt,
+                    images: [], // Images get a detailed analysis instead
+                    embeds: summarizeEmbeds(message),
+                    documents: [], // Files are quoted separately
+                    referencedMessage: message.reference?.messageId
+                });
+            }
         }
 
+        // Describe images and read files the first time their messages go into a prompt
+        await Promise.all([
+            this.imageProcessor.describeImages(recentMessages.flatMap(msg => msg.images), options),
+            this.documentProcessor?.loadDocuments(recentMessages.flatMap(msg => msg.documents ?? []), options.signal)
+        ]);
+
         // Format all messages
+        const entries: ContextEntry[] = [];
+        let headingShown = false;
         for (const msg of recentMessages) {
-            // Mark only the last message as current
-            const isCurrentMessage = msg.id === currentMessage?.id;
-            const formattedMessage = await this.formatMessage(msg, currentMessage, isCurrentMessage);
-            
-            if (isCurrentMessage) {
-                contextMessages.push("\n=== Current Message ===");
+            const isCurrentMessage = currentIds.has(msg.id);
+            const entry: ContextEntry = {
+                ...await this.formatMessage(msg, currentMessage, isCurrentMessage),
+                isCurrentMessage,
+                pinned: isCurrentMessage || replyTargetIds.has(msg.id)
+            };
+
+            if (isCurrentMessage && !headingShown) {
+                entry.heading = currentIds.size > 1 ? "=== Current Messages ===" : "=== Current Message ===";
+                headingShown = true;
+            }
+            entries.push(entry);
+        }
+
+        return entries;
+    }
+
+    /**
+     * Renders a single entry as it appears in a flattened context or a user turn
+     */
+    private renderEntry(entry: ContextEntry): string {
+        const messagePrefix = entry.isCurrentMessage ? ">>> " : "";
+        const replyPrefix = entry.replyContext ? `${entry.replyContext}: ` : "";
+        const messageLine = `${entry.speaker}: ${messagePrefix}${replyPrefix}${entry.content}`;
+        const formatted = [messageLine, ...entry.imageLines, ...entry.embedLines, ...entry.documentLines].join("\n");
+
+        return entry.heading ? `\n${entry.heading}\n\n${formatted}` : formatted;
+    }
+
+    /**
+     * Joins formatted entries into the final context string
+     */
+    private renderEntries(entries: ContextEntry[]): string {
+        return entries.map(entry => this.renderEntry(entry)).join("\n\n");
+    }
+
+    /**
+     * Groups formatted entries into alternating user and assistant turns
+     */
+    private renderTurns(entries: ContextEntry[]): ChatMessage[] {
+        const turns: ChatMessage[] = [];
+
+        for (const entry of entries) {
+            const isBotMessage = entry.authorId === this.botUserId && !entry.isCurrentMessage;
+            const role = isBotMessage ? "assistant" : "user";
+            // The bot's own turns carry only what it said, so it never learns to echo prefixes
+            const content = isBotMessage
+                ? [entry.content, ...entry.imageLines, ...entry.embedLines, ...entry.documentLines].join("\n")
+                : this.renderEntry(entry);
+
+            const lastTurn = turns[turns.length - 1];
+            if (lastTurn?.role === role) {
+                lastTurn.content = `${lastTurn.content}\n\n${content}`;
+            } else {
+                turns.push({ role, content: content.trimStart() });
+            }
+        }
+
+        return turns;
+    }
+
+    /**
+     * Shrinks the entries in place until they fit the token budget: image
+     * descriptions, embeds and file excerpts of older messages go first, then older messages, and
+     * finally what's left is truncated, the current message last
+     * @param measure Counts the tokens the entries currently render to
+     */
+    private fitToBudget(entries: ContextEntry[], tokenBudget: number, measure: () => number): void {
+        const overBudget = () => measure() - tokenBudget;
+        const initialTokens = measure();
+
+        if (overBudget() <= 0) {
+            return;
+        }
+
+        // Drop image descriptions, embeds and file excerpts from the oldest unpinned messages first
+        for (const entry of entries) {
+            if (overBudget() <= 0) break;
+            if (!entry.pinned && entry.imageLines.length > 0) {
+                entry.imageLines = entry.imageLines.map(() => "[Image]");
+            }
+            if (!entry.pinned) {
+                entry.embedLines = [];
+                entry.documentLines = entry.documentLines.map(line => truncateToTokens(line, MIN_TRUNCATED_TOKENS));
+            }
+        }
+
+        // Then drop the oldest unpinned messages
+        while (overBudget() > 0) {
+            const oldestIndex = entries.findIndex(entry => !entry.pinned);
+            if (oldestIndex === -1) break;
+            entries.splice(oldestIndex, 1);
+        }
+
+        // Finally truncate the pinned messages, keeping the current message intact the longest
+        const pinned = [...entries].sort((a, b) => Number(a.isCurrentMessage) - Number(b.isCurrentMessage));
+        const shrink = (text: string) => truncateToTokens(
+            text,
+            Math.max(estimateTokens(text) - overBudget(), MIN_TRUNCATED_TOKENS)
+        );
+        for (const entry of pinned) {
+            for (let i = entry.documentLines.length - 1; i >= 0 && overBudget() > 0; i--) {
+                entry.documentLines[i] = shrink(entry.documentLines[i]);
+            }
+            for (let i = entry.embedLines.length - 1; i >= 0 && overBudget() > 0; i--) {
+                entry.embedLines[i] = shrink(entry.embedLines[i]);
+            }
+            for (let i = entry.imageLines.length - 1; i >= 0 && overBudget() > 0; i--) {
+                entry.imageLines[i] = shrink(entry.imageLines[i]);
+            }
+            if (overBudget() > 0 && entry.replyContext) {
+                entry.replyContext = shrink(entry.replyContext);
+            }
+            if (overBudget() > 0) {
+                entry.content = shrink(entry.content);
             }
-            contextMessages.push(formattedMessage);
         }
 
-        return contextMessages.join("\n\n");
+        logger.debug({
+            tokenBudget,
+            initialTokens,
+            finalTokens: measure(),
+            messageCount: entries.length
+        }, "Trimmed context to fit token budget");
     }
 
     /**
-     * Formats a single message with proper prefixes and image descriptions
+     * Formats a single message with proper prefixes, image descriptions, embeds and files
      */
     private async formatMessage(
         msg: CachedMessage, 
         currentMessage: Message | null,
         isCurrentMessage = false
-    ): Promise<string> {
-        let messageContent = msg.content;
+    ): Promise<FormattedMessage> {
+        let replyContext = "";
 
         // Add referenced message content if available
         if (msg.referencedMessage) {
@@ -88,25 +435,29 @@ export class ContextBuilder {
                     : await this.findReferencedMessage(msg.referencedMessage, currentMessage);
 
                 if (referencedMsg) {
-                    messageContent = `[Replying to: ${referencedMsg.content}]: ${messageContent}`;
+                    replyContext = `[Replying to: ${referencedMsg.content}]`;
+                } else if (this.cacheManager.isDeleted(msg.referencedMessage)) {
+                    replyContext = "[Replying to a deleted message]";
+                } else {
+                    // Keep the ID so the model can look the message up with a tool
+                    replyContext = `[Replying to message ${msg.referencedMessage}, not in recent history]`;
                 }
             } catch (error) {
                 logger.error({ 
                     error, 
                     referencedMessageId: msg.referencedMessage 
                 }, "Failed to fetch referenced message");
-                messageContent = `[Replying to unavailable message]: ${msg.content}`;
+                replyContext = "[Replying to unavailable message]";
             }
         }
 
         // Format user identifier consistently
-        const userIdentifier = `<@${msg.authorId}> (${msg.authorName})`;
-        const messagePrefix = isCurrentMessage ? ">>> " : "";
-        const messageLine = `${userIdentifier}: ${messagePrefix}${messageContent}`;
+        const speaker = `<@${msg.authorId}> (${msg.authorName})`;
         
-        // Add any image descriptions
-        const imageLines = msg.images.map(img => `[Image: ${img.lightAnalysis}]`);
-        const formattedMessage = [messageLine, ...imageLines].join("\n");
+        // Add any image descriptions, embed text and file excerpts
+        const imageLines = msg.images.map(formatImageLine);
+        const embedLines = (msg.embeds ?? []).map(formatEmbedLine);
+        const documentLines = (msg.documents ?? []).map(formatDocumentLine);
 
         // Only log if it's the current message or has images
         if (isCurrentMessage || imageLines.length > 0) {
@@ -114,18 +465,29 @@ export class ContextBuilder {
                 messageId: msg.id,
                 isCurrentMessage,
                 hasImages: imageLines.length > 0,
-                formattedMessage
+                replyContext,
+                imageLines,
+                embedLines,
+                documentLines
             }, "Formatted message for context");
         }
 
-        return formattedMessage;
+        return {
+            authorId: msg.authorId,
+            speaker,
+            replyContext,
+            content: msg.content,
+            imageLines,
+            embedLines,
+            documentLines
+        };
     }
 
     /**
      * Formats a referenced message with its content and images
      */
     private async formatReferencedMessage(
-        referencedMsg: { content: string; images?: { lightAnalysis: string }[]; authorId: string; authorName: string },
+        referencedMsg: { content: string; images?: ImageAnalysis[]; authorId: string; authorName: string },
         originalContent: string
     ): Promise<string> {
         // Remove extra quotes and simplify the reply format
@@ -133,7 +495,7 @@ export class ContextBuilder {
         
         if (referencedMsg.images?.length) {
             const imageDescriptions = referencedMsg.images
-                .map(img => `\n[Image: ${img.lightAnalysis}]`)
+                .map(img => `\n${formatImageLine(img)}`)
                 .join("");
             formattedReference += imageDescriptions;
         }
@@ -147,7 +509,7 @@ export class ContextBuilder {
     private async findReferencedMessage(
         messageId: string,
         currentMessage: Message | null
-    ): Promise<{ content: string; images?: { lightAnalysis: string }[]; authorId: string; authorName: string } | null> {
+    ): Promise<{ content: string; images?: ImageAnalysis[]; authorId: string; authorName: string } | null> {
         // First check if it's the current message being referenced
         if (currentMessage?.id === messageId) {
             return {
@@ -159,7 +521,7 @@ export class ContextBuilder {
         }
 
         // Then check the cache
-        const cachedMessage = this.cacheManager.findMessage(messageId);
+        const cachedMessage = this.cacheManager.findMessage(messageId, currentMessage?.channelId);
         if (cachedMessage) {
             return {
                 content: cachedMessage.content,
@@ -170,18 +532,32 @@ export class ContextBuilder {
         }
 
         // If not in cache and we have current message, try to fetch from Discord
-        if (currentMessage) {
+        if (currentMessage && !this.cacheManager.isDeleted(messageId)) {
             try {
                 const fetchedMessage = await currentMessage.channel.messages.fetch(messageId);
                 if (fetchedMessage) {
                     // Process any images in the fetched message
                     const images = await this.imageProcessor.processImages(fetchedMessage);
-                    
+                    const authorName = fetchedMessage.member?.displayName || fetchedMessage.author.username;
+
+                    // Keep it so the next reply to this message doesn't fetch it again
+                    this.cacheManager.archiveMessage(currentMessage.channelId, {
+                        id: fetchedMessage.id,
+                        content: fetchedMessage.content,
+                        authorId: fetchedMessage.author.id,
+                        authorName,
+                        timestamp: fetchedMessage.createdAt,
+                        images,
+                        embeds: summarizeEmbeds(fetchedMessage),
+                        documents: this.documentProcessor?.processDocuments(fetchedMessage),
+                        referencedMessage: fetchedMessage.reference?.messageId
+                    });
+
                     return {
                         content: fetchedMessage.content,
                         images,
                         authorId: fetchedMessage.author.id,
-                        authorName: fetchedMessage.member?.displayName || fetchedMessage.author.username
+                        authorName
                     };
                 }
             } catch (error) {
@@ -191,4 +567,6 @@ export class ContextBuilder {
 
         return null;
     }
-} 
\ No newline at end of file
+}
+
+export type { PromptMode, ThreadContextOptions };
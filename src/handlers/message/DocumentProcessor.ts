@@ -0,0 +1,375 @@
+import { Attachment, Message } from "discord.js";
+import { DocumentAttachment } from "../../types";
+import { createLogger } from "../../utils/logger";
+import { createLimiter, Limiter } from "../../utils/concurrency";
+import { estimateTokens, truncateToTokens } from "../../utils/tokens";
+import { stableImageUrl } from "../../utils/images";
+
+const logger = createLogger("DocumentProcessor");
+
+/**
+ * Configuration options for reading text file attachments
+ */
+interface DocumentProcessorOptions {
+    /** Bytes read from each file; anything after is left out */
+    maxDocumentBytes: number;
+    /** Files read per message; the rest are skipped */
+    maxDocumentsPerMessage: number;
+    /** Size of the parts large files are split into */
+    partTokens: number;
+    /** How much of each file is quoted in the conversation history */
+    excerptTokens: number;
+    /** Files whose parts are kept in memory; others are downloaded again when read */
+    maxCachedDocuments: number;
+}
+
+const DEFAULT_DOCUMENT_OPTIONS: DocumentProcessorOptions = {
+    maxDocumentBytes: 512 * 1024,
+    maxDocumentsPerMessage: 3,
+    partTokens: 800,
+    excerptTokens: 200,
+    maxCachedDocuments: 20
+};
+
+/**
+ * How long downloading a file may take
+ */
+const DOWNLOAD_TIMEOUT_MS = 10000;
+
+/**
+ * Files downloaded at once
+ */
+const MAX_CONCURRENT_DOWNLOADS = 2;
+
+/**
+ * Extensions read as text whatever content type Discord reports
+ */
+const TEXT_EXTENSIONS = new Set([
+    "txt", "md", "markdown", "rst", "log", "csv", "tsv", "json", "jsonl", "yaml", "yml", "toml", "ini", "cfg",
+    "conf", "env", "xml", "html", "htm", "css", "scss", "js", "mjs", "cjs", "jsx", "ts", "tsx", "py", "rb", "go",
+    "rs", "java", "kt", "kts", "c", "h", "cpp", "cc", "hpp", "cs", "php", "swift", "lua", "sh", "bash", "zsh",
+    "ps1", "bat", "sql", "r", "scala", "dart", "vue", "svelte", "diff", "patch", "gradle", "dockerfile"
+]);
+
+/**
+ * Content types read as text besides text/*
+ */
+const TEXT_CONTENT_TYPES = new Set([
+    "application/json", "application/xml", "application/javascript", "application/x-javascript",
+    "application/typescript", "application/x-sh", "application/x-yaml", "application/yaml", "application/toml",
+    "application/sql", "application/x-httpd-php"
+]);
+
+/**
+ * Words too common to tell which part of a file a question is about
+ */
+const STOP_WORDS = new Set([
+    "the", "and", "for", "are", "but", "not", "you", "all", "can", "what", "why", "how", "does", "this", "that",
+    "with", "from", "have", "has", "was", "were", "its", "file", "about", "there", "here", "any", "which"
+]);
+
+/**
+ * Reads text, code and other document attachments so the bot can answer
+ * questions about them. Files are only downloaded once their message goes
+ * into a prompt; large files are split into parts and the parts most
+ * relevant to a question are quoted within the token budget.
+ */
+export class DocumentProcessor {
+    private readonly options: DocumentProcessorOptions;
+    private readonly limit: Limiter;
+    /** Parts of recently read files by URL, in least-recently-used order */
+    private readonly parts: Map<string, string[]> = new Map();
+
+    constructor(options: Partial<DocumentProcessorOptions> = {}) {
+        this.options = { ...DEFAULT_DOCUMENT_OPTIONS, ...options };
+        this.limit = createLimiter(MAX_CONCURRENT_DOWNLOADS);
+    }
+
+    /**
+     * Collects the text files attached to a message without reading them; see
+     * loadDocuments. Entries in `existing` are reused for files that haven't
+     * changed, e.g. when re-processing an edited message.
+     */
+    public processDocuments(message: Message, existing: DocumentAttachment[] = []): DocumentAttachment[] {
+        const documents: DocumentAttachment[] = [];
+
+        for (const attachment of message.attachments.values()) {
+            if (!this.isTextFile(attachment)) continue;
+
+            const previous = existing.find(document => stableImageUrl(document.url) === stableImageUrl(attachment.url));
+            if (previous) {
+                documents.push(previous);
+                continue;
+            }
+
+            const read = documents.filter(other => !other.skipped).length;
+            documents.push({
+                name: attachment.name,
+                url: attachment.url,
+                size: attachment.size,
+                contentType: attachment.contentType ?? undefined,
+                skipped: read >= this.options.maxDocumentsPerMessage ? "too_many" : undefined
+            });
+        }
+
+        return documents;
+    }
+
+    /**
+     * Reads the files about to go into a prompt, filling in their excerpt.
+     * Files that fail to download are left unread and retried next time.
+     */
+    public async loadDocuments(documents: DocumentAttachment[], signal?: AbortSignal): Promise<void> {
+        await Promise.all(documents
+            .filter(document => !document.skipped && document.excerpt === undefined)
+            .map(document => this.getParts(document, signal)));
+    }
+
+    /**
+     * Quotes the parts of a file most relevant to a question, in file order,
+     * within a token budget. The first part is preferred on a tie, since it
+     * usually says what the file is.
+     * @returns The quoted text, empty when the budget leaves no room, or null
+     * when the file can't be read
+     */
+    public async quoteDocument(
+        document: DocumentAttachment,
+        question: string,
+        tokenBudget: number,
+        signal?: AbortSignal
+    ): Promise<string | null> {
+        if (tokenBudget <= 0) {
+            return "";
+        }
+
+        const parts = await this.getParts(document, signal);
+        if (!parts) {
+            return null;
+        }
+
+        const terms = this.getTerms(question);
+        const ranked = parts
+            .map((text, index) => ({ index, score: this.scorePart(text, terms) }))
+            .sort((a, b) => b.score - a.score || a.index - b.index);
+
+        const chosen: number[] = [];
+        let used = 0;
+        for (const { index } of ranked) {
+            const cost = estimateTokens(parts[index]);
+            if (used + cost > tokenBudget) continue;
+            chosen.push(index);
+            used += cost;
+        }
+        // A budget smaller than one part still gets the start of the best one
+        if (chosen.length === 0) {
+            return this.renderParts(parts, [ranked[0].index], text => truncateToTokens(text, tokenBudget));
+        }
+
+        return this.renderParts(parts, chosen.sort((a, b) => a - b));
+    }
+
+    /**
+     * Reads one part of a file
+     * @param part Part number, starting at 1
+     * @returns The part's text, or null when the file can't be read or has no such part
+     */
+    public async readPart(document: DocumentAttachment, part: number, signal?: AbortSignal): Promise<string | null> {
+        const parts = await this.getParts(document, signal);
+        return parts?.[part - 1] ?? null;
+    }
+
+    /**
+     * Whether an attachment is a file that can be read as text
+     */
+    private isTextFile(attachment: Attachment): boolean {
+        const contentType = attachment.contentType?.split(";")[0].trim();
+        if (contentType?.startsWith("image/") || contentType?.startsWith("video/") || contentType?.startsWith("audio/")) {
+            return false;
+        }
+
+        const name = attachment.name.toLowerCase();
+        const extension = name.includes(".") ? name.split(".").pop()! : name;
+        return TEXT_EXTENSIONS.has(extension)
+            || !!contentType && (contentType.startsWith("text/") || TEXT_CONTENT_TYPES.has(contentType));
+    }
+
+    /**
+     * Gets a file's parts from memory, or downloads and splits it
+     */
+    private async getParts(document: DocumentAttachment, signal?: AbortSignal): Promise<string[] | null> {
+        if (document.skipped) {
+            return null;
+        }
+
+        const key = stableImageUrl(document.url);
+        const cached = this.parts.get(key);
+        if (cached) {
+            this.parts.delete(key);
+            this.parts.set(key, cached);
+            return cached;
+        }
+
+        const text = await this.limit(() => this.download(document, signal));
+        if (text === null) {
+            return null;
+        }
+
+        const parts = this.split(text);
+        document.excerpt = truncateToTokens(text, this.options.excerptTokens);
+        document.tokens = estimateTokens(text);
+        document.parts = parts.length;
+
+        this.parts.set(key, parts);
+        for (const oldest of this.parts.keys()) {
+            if (this.parts.size <= this.options.maxCachedDocuments) break;
+            this.parts.delete(oldest);
+        }
+
+        logger.debug({ name: document.name, encoding: document.encoding, parts: parts.length }, "Read document attachment");
+        return parts;
+    }
+
+    /**
+     * Downloads up to maxDocumentBytes of a file and decodes it
+     * @returns The file's text, or null when it couldn't be downloaded or isn't text
+     */
+    private async download(document: DocumentAttachment, signal?: AbortSignal): Promise<string | null> {
+        try {
+            const timeout = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+            const response = await fetch(document.url, { signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+            if (!response.ok || !response.body) {
+                throw new Error(`Document download failed with status ${response.status}`);
+            }
+
+            // Stop reading past the limit instead of downloading the whole file
+            const reader = response.body.getReader();
+            const chunks: Uint8Array[] = [];
+            let received = 0;
+            while (received <= this.options.maxDocumentBytes) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                chunks.push(value);
+                received += value.length;
+            }
+            const truncated = received > this.options.maxDocumentBytes;
+            await reader.cancel().catch(() => undefined);
+
+            const bytes = Buffer.concat(chunks).subarray(0, this.options.maxDocumentBytes);
+            const decoded = this.decode(bytes, response.headers.get("content-type") ?? document.contentType, truncated);
+            if (!decoded) {
+                logger.debug({ name: document.name }, "Attachment isn't text, skipping");
+                document.skipped = "unreadable";
+                return null;
+            }
+
+            document.encoding = decoded.encoding;
+            document.truncated = truncated || undefined;
+            return decoded.text;
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            logger.warn({ error, name: document.name }, "Failed to download document attachment");
+            return null;
+        }
+    }
+
+    /**
+     * Detects a file's encoding from its byte order mark, the declared
+     * charset or by trying UTF-8, falling back to Windows-1252
+     * @param truncated Whether the bytes stop mid-file, possibly mid-character
+     * @returns The text and the encoding used, or null for binary files
+     */
+    private decode(bytes: Buffer, contentType: string | undefined, truncated: boolean): { text: string; encoding: string } | null {
+        const decodeAs = (encoding: string, offset = 0, fatal = false) => ({
+            text: new TextDecoder(encoding, { fatal }).decode(bytes.subarray(offset), { stream: truncated }),
+            encoding
+        });
+
+        if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return decodeAs("utf-8", 3);
+        if (bytes[0] === 0xff && bytes[1] === 0xfe) return decodeAs("utf-16le", 2);
+        if (bytes[0] === 0xfe && bytes[1] === 0xff) return decodeAs("utf-16be", 2);
+
+        // Text files don't contain NUL bytes, while nearly every binary format does
+        if (bytes.subarray(0, 8192).includes(0)) {
+            return null;
+        }
+
+        const charset = contentType?.match(/charset=["']?([\w-]+)/i)?.[1].toLowerCase();
+        if (charset && charset !== "utf-8" && charset !== "utf8") {
+            try {
+                return decodeAs(charset);
+            } catch {
+                // Unknown charset; detect it instead
+            }
+        }
+
+        try {
+            return decodeAs("utf-8", 0, true);
+        } catch {
+            return decodeAs("windows-1252");
+        }
+    }
+
+    /**
+     * Splits text into parts of about partTokens each, between lines where possible
+     */
+    private split(text: string): string[] {
+        const parts: string[] = [];
+        let current: string[] = [];
+        let currentTokens = 0;
+
+        const flush = () => {
+            if (current.length > 0) {
+                parts.push(current.join("\n"));
+                current = [];
+                currentTokens = 0;
+            }
+        };
+
+        for (const line of text.split(/\r?\n/)) {
+            const tokens = estimateTokens(line) + 1;
+            if (currentTokens + tokens > this.options.partTokens) {
+                flush();
+            }
+            if (tokens > this.options.partTokens) {
+                // A single huge line (minified code, one-line JSON) is cut into pieces
+                const chars = Array.from(line);
+                const step = this.options.partTokens * 3;
+                for (let i = 0; i < chars.length; i += step) {
+                    parts.push(chars.slice(i, i + step).join(""));
+                }
+                continue;
+            }
+            current.push(line);
+            currentTokens += tokens;
+        }
+        flush();
+
+        return parts.length > 0 ? parts : [""];
+    }
+
+    private getTerms(question: string): string[] {
+        const words = question.toLowerCase().match(/[\p{L}\p{N}_.-]{3,}/gu) ?? [];
+        return Array.from(new Set(words.filter(word => !STOP_WORDS.has(word))));
+    }
+
+    /**
+     * Counts how often a question's terms appear in a part
+     */
+    private scorePart(text: string, terms: string[]): number {
+        const lower = text.toLowerCase();
+        return terms.reduce((score, term) => score + (lower.split(term).length - 1), 0);
+    }
+
+    private renderParts(parts: string[], indexes: number[], transform: (text: string) => string = text => text): string {
+        if (parts.length === 1) {
+            return transform(parts[0]);
+        }
+        return indexes
+            .map(index => `--- part ${index + 1} of ${parts.length} ---\n${transform(parts[index])}`)
+            .join("\n");
+    }
+}
+
+export type { DocumentProcessorOptions };
@@ -0,0 +1,47 @@
+import { LLMError, LLMErrorKind } from "../../providers";
+
+/**
+ * Reply for each kind of failure; null keeps the bot silent
+ */
+export type FailureReplies = Record<LLMErrorKind, string | null>;
+
+/**
+ * Used for any kind missing from the failureReplies configuration
+ */
+const DEFAULT_FAILURE_REPLIES: FailureReplies = {
+    timeout: "sorry fren, im taking too long to think rn :sadge: try again in a bit",
+    rate_limit: "sorry fren, im being rate limited rn :pepesad: try again in a few minutes",
+    context_length: "sorry fren, this convo got too long for my tiny brain :sadge: try asking again",
+    content_filter: "i can't say that one fren :pepesad:",
+    auth: "I encountered an error while processing your message :sadge:",
+    network: "sorry, i'm having trouble thinking right now :sadge:",
+    server: "sorry, i'm having trouble thinking right now :sadge:",
+    // Cancelled replies were superseded or interrupted by a shutdown
+    cancelled: null,
+    quota: "im out of brain juice for today fren :sadge: try again later",
+    unknown: "I encountered an error while processing your message :sadge:"
+};
+
+/**
+ * Decides what the bot says when it fails to answer, based on the kind of error.
+ * Replies are configured under failureReplies in system-messages.json.
+ */
+export class FailureReplyPolicy {
+    private readonly replies: FailureReplies;
+
+    /**
+     * @param configured The failureReplies section; missing kinds keep their defaults
+     */
+    constructor(configured: Partial<FailureReplies> = {}) {
+        this.replies = { ...DEFAULT_FAILURE_REPLIES, ...configured };
+    }
+
+    /**
+     * Gets the reply for an error, or null when the bot should stay silent.
+     * Errors that did not come from the LLM layer are treated as unknown.
+     */
+    public getReply(error: unknown): string | null {
+        const kind: LLMErrorKind = error instanceof LLMError ? error.kind : "unknown";
+        return this.replies[kind] ?? null;
+    }
+}
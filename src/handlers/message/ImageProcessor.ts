@@ -1,45 +1,501 @@
-import { Message } from "discord.js";
-import { ImageAnalysis } from "../../types";
-import { GroqHandler } from "../../groqApi";
+import { Message, StickerFormatType } from "discord.js";
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { ImageAnalysis, ImageSkipReason } from "../../types";
+import { GroqHandler, RequestOptions } from "../../groqApi";
+import { ImageAnalysisCache } from "../cache/ImageAnalysisCache";
 import { createLogger } from "../../utils/logger";
+import { createLimiter, Limiter } from "../../utils/concurrency";
+import { describeSkipReason, stableImageUrl } from "../../utils/images";
 
 const logger = createLogger("ImageProcessor");
 
 /**
- * Handles image processing and analysis
+ * Configuration options for image processing
+ */
+interface ImageProcessorOptions {
+    /** Images downloaded and analyzed at once */
+    maxConcurrency: number;
+    /** Images analyzed per message; the rest are skipped */
+    maxImagesPerMessage: number;
+    /** Attachments larger than this are skipped */
+    maxImageBytes: number;
+    /** Longest edge, in pixels, images are downscaled to before analysis */
+    maxDimension: number;
+}
+
+const DEFAULT_IMAGE_OPTIONS: ImageProcessorOptions = {
+    maxConcurrency: 3,
+    maxImagesPerMessage: 4,
+    maxImageBytes: 20 * 1024 * 1024,
+    maxDimension: 1024
+};
+
+/**
+ * Images are decoded at most this large, so a tiny file can't expand into a huge bitmap
+ */
+const MAX_INPUT_PIXELS = 40_000_000;
+
+/**
+ * How long downloading an image may take
+ */
+const DOWNLOAD_TIMEOUT_MS = 10000;
+
+/**
+ * Formats the pipeline can decode; animated GIF and WebP are reduced to their first frame
+ */
+const SUPPORTED_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp", "image/avif", "image/tiff"]);
+
+/**
+ * What each sticker format is served as; Lottie stickers are vector
+ * animations the pipeline can't decode, so only their name is shown
+ */
+const STICKER_TYPES: Record<StickerFormatType, string> = {
+    [StickerFormatType.PNG]: "image/png",
+    [StickerFormatType.APNG]: "image/png",
+    [StickerFormatType.Lottie]: "application/json",
+    [StickerFormatType.GIF]: "image/gif"
+};
+
+/**
+ * An image to analyze: a cached ImageAnalysis or a Discord attachment
+ */
+type ImageSource = Pick<ImageAnalysis, "url" | "size" | "contentType" | "contentKey" | "skipped">;
+
+/**
+ * An image with the label its detailed analysis refers to it by, e.g.
+ * "Image 2 (GIF in Alice's message)"
+ */
+interface LabeledImage {
+    label: string;
+    image: ImageSource;
+}
+
+/**
+ * An image downloaded for analysis
+ */
+interface PreparedImage {
+    key: string;
+    bytes: Buffer;
+}
+
+/**
+ * Thrown inside the pipeline when an image can't be analyzed
+ */
+class ImageSkippedError extends Error {
+    constructor(public readonly reason: ImageSkipReason) {
+        super(`Image skipped: ${reason}`);
+    }
+}
+
+/**
+ * Handles image processing and analysis. Analyses are cached by image
+ * content, and light analyses only run once a message goes into a prompt.
+ * Images are downloaded, reduced to their first frame and downscaled before
+ * they are sent to the vision model, a few at a time.
  */
 export class ImageProcessor {
-    constructor(private groqHandler: GroqHandler) {}
+    private readonly options: ImageProcessorOptions;
+    private readonly limit: Limiter;
+
+    constructor(
+        private groqHandler: GroqHandler,
+        private analysisCache: ImageAnalysisCache = new ImageAnalysisCache({ maxEntries: 1000 }),
+        options: Partial<ImageProcessorOptions> = {}
+    ) {
+        this.options = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+        this.limit = createLimiter(this.options.maxConcurrency);
+    }
 
     /**
-     * Processes all images in a message
+     * Collects the images in a message without analyzing them; see describeImages.
+     * Besides image attachments these are embed images (link previews, GIFs,
+     * bot embeds), stickers and video thumbnails. Images over the size or
+     * count limits, or of unsupported types, are recorded as skipped. Entries
+     * in `existing` are reused for images that haven't changed, e.g. when
+     * re-processing an edited message.
      */
-    public async processImages(message: Message): Promise<ImageAnalysis[]> {
+    public async processImages(message: Message, existing: ImageAnalysis[] = []): Promise<ImageAnalysis[]> {
         const images: ImageAnalysis[] = [];
-        
+
+        for (const source of this.collectImageSources(message)) {
+            const previous = existing.find(image => this.isSameImage(image.url, source.url));
+            if (previous) {
+                images.push(previous);
+                continue;
+            }
+
+            const image: ImageAnalysis = {
+                ...source,
+                lightAnalysis: this.getCachedAnalysis(source.url, "light")
+            };
+            const analyzed = images.filter(other => !other.skipped).length;
+            image.skipped = this.checkImage(image)
+                ?? (analyzed >= this.options.maxImagesPerMessage ? "too_many" : undefined);
+            images.push(image);
+        }
+
+        const skipped = images.filter(image => image.skipped);
+        if (skipped.length > 0) {
+            logger.debug({
+                messageId: message.id,
+                skipped: skipped.map(image => image.skipped)
+            }, "Skipping images that can't be analyzed");
+        }
+
+        return images;
+    }
+
+    /**
+     * Finds every image a message shows, in the order Discord displays them
+     */
+    private collectImageSources(message: Message): ImageAnalysis[] {
+        const sources: ImageAnalysis[] = [];
+
         for (const attachment of message.attachments.values()) {
             if (attachment.contentType?.startsWith("image/")) {
-                try {
-                    const lightAnalysis = await this.groqHandler.performLightAnalysis(attachment.url);
-                    images.push({ url: attachment.url, lightAnalysis });
-                } catch (error) {
-                    logger.error({ error, messageId: message.id }, "Error processing image");
+                sources.push({ url: attachment.url, size: attachment.size, contentType: attachment.contentType });
+            } else if (attachment.contentType?.startsWith("video/")) {
+                // Discord's media proxy renders a frame of the video when asked for an image
+                const separator = attachment.proxyURL.includes("?") ? "&" : "?";
+                sources.push({
+                    url: `${attachment.proxyURL}${separator}format=jpeg`,
+                    contentType: "image/jpeg",
+                    origin: "video",
+                    label: attachment.name
+                });
+            }
+        }
+
+        for (const embed of message.embeds) {
+            const media = embed.image ?? embed.thumbnail;
+            if (!media?.url) continue;
+
+            const type = embed.data.type;
+            sources.push({
+                url: media.proxyURL ?? media.url,
+                origin: type === "gifv" ? "gif" : type === "video" ? "video" : "embed",
+                label: embed.title ?? undefined
+            });
+        }
+
+        for (const sticker of message.stickers.values()) {
+            sources.push({
+                url: sticker.url,
+                contentType: STICKER_TYPES[sticker.format],
+                origin: "sticker",
+                label: sticker.name
+            });
+        }
+
+        return sources;
+    }
+
+    /**
+     * Fills in the light analysis of images about to go into a prompt, from the
+     * cache when the same content was seen before. Uncached images are left
+     * undescribed once the usage budget starts running low.
+     */
+    public async describeImages(images: ImageAnalysis[], options: RequestOptions = {}): Promise<void> {
+        await Promise.all(images.map(image => this.describeImage(image, options)));
+    }
+
+    private async describeImage(image: ImageAnalysis, options: RequestOptions): Promise<void> {
+        // Budget skips are retried, since budgets recover
+        if (image.lightAnalysis || (image.skipped && image.skipped !== "usage_budget")) {
+            return;
+        }
+
+        const cached = this.getCachedAnalysis(image.url, "light", image.contentKey);
+        if (cached) {
+            image.lightAnalysis = cached;
+            image.skipped = undefined;
+            return;
+        }
+        if (this.groqHandler.getUsageLevel(options.usage) !== "normal") {
+            logger.debug({ imageUrl: image.url }, "Usage budget running low, skipping light analysis");
+            image.skipped = "usage_budget";
+            return;
+        }
+
+        try {
+            image.lightAnalysis = await this.analyze(
+                image,
+                "light",
+                options,
+                (input, shared) => this.groqHandler.performLightAnalysis(input, shared)
+            );
+            image.skipped = undefined;
+        } catch (error) {
+            if (error instanceof ImageSkippedError) {
+                image.skipped = error.reason;
+                return;
+            }
+            if (options.signal?.aborted) {
+                throw error;
+            }
+            logger.error({ error, imageUrl: image.url }, "Error performing light analysis");
+        }
+    }
+
+    /**
+     * Compares image URLs ignoring the signed query string of Discord's CDN,
+     * which is regenerated over time
+     */
+    private isSameImage(a: string, b: string): boolean {
+        return stableImageUrl(a) === stableImageUrl(b);
+    }
+
+    /**
+     * Performs detailed analysis on a specific image, reusing an earlier
+     * analysis of the same content
+     * @param options Signal and usage scope; a cancelled analysis rejects
+     * @returns The analysis, why the image was skipped, or null when the
+     * analysis failed and may be tried again
+     */
+    public async performDetailedAnalysis(image: ImageSource, options: RequestOptions = {}): Promise<string | null> {
+        try {
+            const skipped = this.getDetailedSkipReason(image);
+            if (skipped) {
+                throw new ImageSkippedError(skipped);
+            }
+
+            return await this.analyze(
+                image,
+                "detailed",
+                options,
+                (input, shared) => this.groqHandler.performDetailedAnalysis(input, shared)
+            );
+        } catch (error) {
+            if (error instanceof ImageSkippedError) {
+                image.skipped = error.reason;
+                return `Image not analyzed: ${describeSkipReason(error.reason)}`;
+            }
+            if (options.signal?.aborted) {
+                throw error;
+            }
+            logger.error({ error, imageUrl: image.url }, "Error performing detailed analysis");
+            return null;
+        }
+    }
+
+    /**
+     * Performs detailed analysis on several images, each line starting with
+     * the image's label. When the vision model takes them all at once they
+     * go in a single request, so the analysis can compare them; otherwise,
+     * or if that request fails, each is analyzed on its own.
+     * @param options Signal and usage scope; a cancelled analysis rejects
+     */
+    public async performMultiImageAnalysis(images: LabeledImage[], options: RequestOptions = {}): Promise<string> {
+        const usable = images.filter(({ image }) => !this.getDetailedSkipReason(image));
+
+        if (usable.length > 1 && usable.length <= this.groqHandler.getMaxImagesPerRequest()) {
+            try {
+                const analysis = await this.analyzeTogether(usable, options);
+                const skippedLines = images
+                    .filter(labeled => !usable.includes(labeled))
+                    .map(({ label, image }) => `${label}: Image not analyzed: ${describeSkipReason(this.getDetailedSkipReason(image)!)}`);
+                return [analysis, ...skippedLines].join("\n");
+            } catch (error) {
+                if (options.signal?.aborted) {
+                    throw error;
                 }
+                logger.warn({ error, count: usable.length }, "Multi-image analysis failed, analyzing images one at a time");
             }
         }
 
-        return images;
+        const analyses = await Promise.all(images.map(async ({ label, image }) =>
+            `${label}: ${await this.performDetailedAnalysis(image, options) ?? "Error analyzing image"}`
+        ));
+        return analyses.join("\n");
+    }
+
+    /**
+     * Analyzes images in a single vision request, reusing an earlier analysis
+     * of the same images under the same labels
+     * @throws ImageSkippedError when an image turns out to be too large or unreadable
+     */
+    private async analyzeTogether(images: LabeledImage[], options: RequestOptions): Promise<string> {
+        const setKey = (keys: string[]) => `set:${createHash("sha256")
+            .update(JSON.stringify(images.map(({ label }, i) => [label, keys[i]])))
+            .digest("hex")}`;
+
+        const knownKeys = images.map(({ image }) => image.contentKey ?? this.analysisCache.getKeyForUrl(image.url));
+        if (knownKeys.every((key): key is string => !!key)) {
+            const cached = this.analysisCache.get(setKey(knownKeys), "detailed");
+            if (cached) {
+                return cached;
+            }
+        }
+
+        const prepared = await Promise.all(images.map(({ image }) => this.limit(() => this.prepare(image, options))));
+        const { signal, ...shared } = options;
+        return this.analysisCache.getOrAnalyze(setKey(prepared.map(({ key }) => key)), "detailed", async () => {
+            const inputs = await Promise.all(prepared.map(({ bytes }, i) =>
+                this.limit(() => this.toModelInput(bytes, images[i].image.url))
+            ));
+            return this.groqHandler.performMultiImageAnalysis(
+                images.map(({ label }, i) => ({ label, url: inputs[i] })),
+                shared
+            );
+        }, signal);
+    }
+
+    /**
+     * Writes pending cached analyses to storage
+     */
+    public async flush(): Promise<void> {
+        await this.analysisCache.flush();
     }
 
     /**
-     * Performs detailed analysis on a specific image
+     * Checks the limits that can be applied before downloading an image
      */
-    public async performDetailedAnalysis(imageUrl: string): Promise<string> {
+    private checkImage(image: ImageSource): ImageSkipReason | undefined {
+        if ((image.size ?? 0) > this.options.maxImageBytes) {
+            return "too_large";
+        }
+        if (image.contentType && !SUPPORTED_TYPES.has(image.contentType.split(";")[0])) {
+            return "unsupported_type";
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks whether an image can get a detailed analysis. The count limit
+     * only applies to describing every image of a message, so it's ignored.
+     */
+    private getDetailedSkipReason(image: ImageSource): ImageSkipReason | undefined {
+        return this.checkImage(image) ?? (image.skipped === "unreadable" ? image.skipped : undefined);
+    }
+
+    /**
+     * Gets an analysis cached for an image whose content key is already known
+     */
+    private getCachedAnalysis(url: string, kind: "light" | "detailed", contentKey?: string): string | undefined {
+        const key = contentKey ?? this.analysisCache.getKeyForUrl(url);
+        return key ? this.analysisCache.get(key, kind) : undefined;
+    }
+
+    /**
+     * Gets an analysis from the cache, or downloads, prepares and analyzes
+     * the image in a free pipeline slot
+     * @param run Sends the prepared image, as a data URL, to the vision model,
+     * with the request options minus the signal, since the analysis is shared
+     * with other waiters
+     * @throws ImageSkippedError when the image turns out to be too large or unreadable
+     */
+    private async analyze(
+        image: ImageSource,
+        kind: "light" | "detailed",
+        options: RequestOptions,
+        run: (input: string, options: RequestOptions) => Promise<string>
+    ): Promise<string> {
+        const cached = this.getCachedAnalysis(image.url, kind, image.contentKey);
+        if (cached) {
+            return cached;
+        }
+
+        return this.limit(async () => {
+            const { key, bytes } = await this.prepare(image, options);
+            const { signal, ...shared } = options;
+            return this.analysisCache.getOrAnalyze(
+                key,
+                kind,
+                async () => run(await this.toModelInput(bytes, image.url), shared),
+                signal
+            );
+        });
+    }
+
+    /**
+     * Downloads an image and works out its content key
+     */
+    private async prepare(image: ImageSource, options: RequestOptions): Promise<PreparedImage> {
+        options.signal?.throwIfAborted();
+
+        const bytes = await this.download(image, options.signal);
+        const key = `sha256:${createHash("sha256").update(bytes).digest("hex")}`;
+        image.contentKey = key;
+        this.analysisCache.setKeyForUrl(image.url, key);
+
+        return { key, bytes };
+    }
+
+    /**
+     * Downloads an image, enforcing the size limit on what actually arrives
+     * @throws ImageSkippedError when the image is too large or can't be downloaded
+     */
+    private async download(image: ImageSource, signal?: AbortSignal): Promise<Buffer> {
         try {
-            return await this.groqHandler.performDetailedAnalysis(imageUrl);
+            const timeout = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+            const response = await fetch(image.url, { signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+            if (!response.ok || !response.body) {
+                throw new Error(`Image download failed with status ${response.status}`);
+            }
+            if (Number(response.headers.get("content-length")) > this.options.maxImageBytes) {
+                throw new ImageSkippedError("too_large");
+            }
+
+            // Stop reading past the limit, since not every response says how large it is
+            const reader = response.body.getReader();
+            const chunks: Uint8Array[] = [];
+            let received = 0;
+            try {
+                for (;;) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    received += value.length;
+                    if (received > this.options.maxImageBytes) {
+                        throw new ImageSkippedError("too_large");
+                    }
+                    chunks.push(value);
+                }
+            } finally {
+                await reader.cancel().catch(() => undefined);
+            }
+            return Buffer.concat(chunks);
         } catch (error) {
-            logger.error({ error, imageUrl }, "Error performing detailed analysis");
-            return "Error analyzing image";
+            if (error instanceof ImageSkippedError || signal?.aborted) {
+                throw error;
+            }
+            logger.warn({ error, imageUrl: image.url }, "Failed to download image, skipping it");
+            throw new ImageSkippedError("unreadable");
         }
     }
-} 
\ No newline at end of file
+
+    /**
+     * Reduces an image to its first frame, downscaled to fit maxDimension, as a JPEG data URL
+     */
+    private async toModelInput(bytes: Buffer, url: string): Promise<string> {
+        const metadata = await sharp(bytes, { limitInputPixels: false }).metadata().catch(() => null);
+        if (!metadata?.width || !metadata.height) {
+            throw new ImageSkippedError("unreadable");
+        }
+        if (metadata.width * metadata.height > MAX_INPUT_PIXELS) {
+            throw new ImageSkippedError("too_large");
+        }
+        if ((metadata.pages ?? 1) > 1) {
+            logger.debug({ imageUrl: url, frames: metadata.pages }, "Using the first frame of an animated image");
+        }
+
+        const output = await sharp(bytes, { animated: false, limitInputPixels: MAX_INPUT_PIXELS })
+            .rotate()
+            .resize({
+                width: this.options.maxDimension,
+                height: this.options.maxDimension,
+                fit: "inside",
+                withoutEnlargement: true
+            })
+            .flatten({ background: "#ffffff" })
+            .jpeg({ quality: 85 })
+            .toBuffer()
+            .catch(() => {
+                throw new ImageSkippedError("unreadable");
+            });
+
+        return `data:image/jpeg;base64,${output.toString("base64")}`;
+    }
+}
+
+export type { ImageProcessorOptions, LabeledImage };
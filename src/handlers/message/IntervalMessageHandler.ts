@@ -1,8 +1,10 @@
-import { TextChannel, TextBasedChannel } from "discord.js";
+import { SendableChannels, TextBasedChannel } from "discord.js";
 import { GroqHandler } from "../../groqApi";
 import { ContextBuilder } from "./ContextBuilder";
 import { ChannelCacheManager } from "../cache/ChannelCacheManager";
 import { createLogger } from "../../utils/logger";
+import { BeforeGenerateEvent, PluginManager } from "../../plugins";
+import { CancelledError } from "../../providers";
 import * as fs from "fs/promises";
 import * as path from "path";
 
@@ -27,12 +29,15 @@ interface IntervalConfig {
  */
 export class IntervalMessageHandler {
     private intervals: Map<string, NodeJS.Timeout> = new Map();
+    /** Cancels the interjection being generated for each channel */
+    private inFlight: Map<string, AbortController> = new Map();
     private config: IntervalConfig | null = null;
 
     constructor(
         private readonly groqHandler: GroqHandler,
         private readonly contextBuilder: ContextBuilder,
-        private readonly cacheManager: ChannelCacheManager
+        private readonly cacheManager: ChannelCacheManager,
+        private readonly pluginManager?: PluginManager
     ) {
         this.loadConfig().catch(error => {
             logger.error({ error }, "Failed to load interval configuration");
@@ -67,7 +72,7 @@ export class IntervalMessageHandler {
     /**
      * Starts monitoring a channel for periodic interjections
      */
-    public startMonitoring(channel: TextChannel): void {
+    public startMonitoring(channel: SendableChannels): void {
         // Clear any existing interval for this channel
         this.stopMonitoring(channel.id);
 
@@ -85,9 +90,12 @@ export class IntervalMessageHandler {
     }
 
     /**
-     * Stops monitoring a channel
+     * Stops monitoring a channel, cancelling an interjection in progress
      */
     public stopMonitoring(channelId: string): void {
+        this.inFlight.get(channelId)?.abort(new CancelledError("Stopped monitoring channel"));
+        this.inFlight.delete(channelId);
+
         const existingInterval = this.intervals.get(channelId);
         if (existingInterval) {
             clearInterval(existingInterval);
@@ -99,13 +107,13 @@ export class IntervalMessageHandler {
     /**
      * Generates and sends an interjection message
      */
-    private async generateInterjection(channel: TextChannel): Promise<void> {
+    private async generateInterjection(channel: SendableChannels): Promise<void> {
         if (!this.config) {
             logger.error("No configuration loaded for interval messages");
             return;
         }
 
-        const cache = this.cacheManager.getCache(channel.id);
+        const cache = this.contextBuilder.getConversationCache(channel);
         if (!cache || cache.messages.length === 0) {
             logger.debug({ channelId: channel.id }, "No messages in cache to generate interjection");
             return;
@@ -113,22 +121,39 @@ export class IntervalMessageHandler {
 
         // Start typing indicator
         let typingInterval: NodeJS.Timeout | undefined;
+        const controller = new AbortController();
+        this.inFlight.set(channel.id, controller);
 
         try {
-            // Build context from recent messages
-            const context = await this.contextBuilder.buildContext(cache, null);
+            // Collect recent messages once; they are fitted to each model's context budget
+            const usage = { guildId: "guildId" in channel ? channel.guildId : null, channelId: channel.id };
+            const renderContext = await this.contextBuilder.prepareContext(cache, null, 15, false, {
+                signal: controller.signal,
+                usage
+            });
 
             // Start typing just before generating response
-            typingInterval = this.startTypingInterval(channel);
+            typingInterval = this.startTypingInterval(channel, controller.signal);
 
             // Generate an interjection based on the conversation context
-            const response = await this.groqHandler.generateResponse({
-                content: `${this.config.prompt}\n\n${context}`,
+            const generated = await this.groqHandler.generateResponse({
+                content: `${this.config.prompt}\n\n${renderContext()}`,
                 author: {
                     id: channel.client.user?.id || "unknown",
-                    name: channel.client.user?.username || "SmolBot"
+                    name: channel.client.user?.username || "unknown"
                 }
-            }, context);
+            }, async tokenBudget => {
+                // Plugins may rewrite the prompt before generation
+                const generateEvent: BeforeGenerateEvent = { channelId: channel.id, context: renderContext(tokenBudget) };
+                await this.pluginManager?.runBeforeGenerate(generateEvent);
+                return generateEvent.context;
+            }, undefined, {
+                signal: controller.signal,
+                usage
+            });
+            const response = this.pluginManager
+                ? await this.pluginManager.runAfterGenerate({ channelId: channel.id, content: generated })
+                : generated;
 
             // Clear typing before sending
             if (typingInterval) {
@@ -136,8 +161,15 @@ export class IntervalMessageHandler {
                 typingInterval = undefined;
             }
 
+            if (response === null) {
+                logger.info({ channelId: channel.id }, "Interjection vetoed by plugin");
+                return;
+            }
+
             // Send the interjection
+            controller.signal.throwIfAborted();
             const sentMessage = await channel.send(response);
+            void this.pluginManager?.runReplySent({ channelId: channel.id, reply: sentMessage });
 
             // Cache the bot's message
             this.cacheManager.addMessage(channel.id, {
@@ -159,17 +191,25 @@ export class IntervalMessageHandler {
             if (typingInterval) {
                 clearInterval(typingInterval);
             }
+            if (controller.signal.aborted) {
+                logger.info({ channelId: channel.id }, "Interjection cancelled");
+                return;
+            }
             logger.error({ 
                 error, 
                 channelId: channel.id 
             }, "Failed to generate or send interjection");
+        } finally {
+            if (this.inFlight.get(channel.id) === controller) {
+                this.inFlight.delete(channel.id);
+            }
         }
     }
 
     /**
-     * Starts a typing indicator interval that continues until cleared
+     * Starts a typing indicator interval that continues until cleared or the signal aborts
      */
-    private startTypingInterval(channel: TextChannel): NodeJS.Timeout {
+    private startTypingInterval(channel: SendableChannels, signal?: AbortSignal): NodeJS.Timeout {
         // Send initial typing indicator
         if ('sendTyping' in channel) {
             void channel.sendTyping().catch((error: Error) => {
@@ -178,26 +218,28 @@ export class IntervalMessageHandler {
         }
 
         // Continue showing typing every 8 seconds (Discord's typing timeout is 10 seconds)
-        return setInterval(() => {
+        const interval = setInterval(() => {
             if ('sendTyping' in channel) {
                 void channel.sendTyping().catch((error: Error) => {
                     logger.warn({ error, channelId: channel.id }, "Failed to send typing indicator");
                 });
             }
         }, 8000);
+        signal?.addEventListener("abort", () => clearInterval(interval), { once: true });
+        return interval;
     }
 
     /**
      * Checks if a channel supports typing indicators
      */
-    private canShowTyping(channel: TextChannel): boolean {
+    private canShowTyping(channel: SendableChannels): boolean {
         return 'sendTyping' in channel;
     }
 
     /**
      * Forces an immediate interjection
      */
-    public async forceInterjection(channel: TextChannel): Promise<void> {
+    public async forceInterjection(channel: SendableChannels): Promise<void> {
         logger.info({ channelId: channel.id }, "Forcing immediate interjection");
         await this.generateInterjection(channel);
     }
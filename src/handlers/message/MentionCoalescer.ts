@@ -0,0 +1,111 @@
+import { Message } from "discord.js";
+import { createLogger } from "../../utils/logger";
+
+const logger = createLogger("MentionCoalescer");
+
+/**
+ * Configuration options for mention coalescing
+ */
+interface CoalescerOptions {
+    /** Quiet period after the latest mention before the burst is answered; 0 disables coalescing */
+    windowMs: number;
+    /** Longest a burst may keep growing before it is answered anyway */
+    maxWaitMs: number;
+}
+
+interface PendingBurst {
+    messages: Message[];
+    startedAt: number;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Collects mentions arriving close together in a channel so they are
+ * answered with a single reply instead of one reply each
+ */
+export class MentionCoalescer {
+    private readonly bursts: Map<string, PendingBurst> = new Map();
+
+    /**
+     * @param onBurst Called with each burst's messages, oldest first
+     */
+    constructor(
+        private readonly options: CoalescerOptions,
+        private readonly onBurst: (messages: Message[]) => void
+    ) {}
+
+    /**
+     * Adds a mention, answering its channel's burst once the window passes without another
+     */
+    public add(message: Message): void {
+        if (this.options.windowMs <= 0) {
+            this.onBurst([message]);
+            return;
+        }
+
+        const burst = this.bursts.get(message.channelId);
+        if (!burst) {
+            this.bursts.set(message.channelId, {
+                messages: [message],
+                startedAt: Date.now(),
+                timer: setTimeout(() => this.flush(message.channelId), this.options.windowMs)
+            });
+            return;
+        }
+
+        burst.messages.push(message);
+        clearTimeout(burst.timer);
+        const remaining = burst.startedAt + this.options.maxWaitMs - Date.now();
+        burst.timer = setTimeout(
+            () => this.flush(message.channelId),
+            Math.max(0, Math.min(this.options.windowMs, remaining))
+        );
+    }
+
+    /**
+     * Takes a message out of its pending burst, e.g. after it was deleted
+     * @returns true if the message was waiting
+     */
+    public remove(messageId: string, channelId: string): boolean {
+        const burst = this.bursts.get(channelId);
+        const index = burst?.messages.findIndex(message => message.id === messageId) ?? -1;
+        if (!burst || index === -1) {
+            return false;
+        }
+
+        burst.messages.splice(index, 1);
+        if (burst.messages.length === 0) {
+            clearTimeout(burst.timer);
+            this.bursts.delete(channelId);
+        }
+        return true;
+    }
+
+    /**
+     * Drops every pending burst without answering, e.g. on shutdown
+     */
+    public clear(): void {
+        for (const burst of this.bursts.values()) {
+            clearTimeout(burst.timer);
+        }
+        this.bursts.clear();
+    }
+
+    /**
+     * Answers a channel's burst
+     */
+    private flush(channelId: string): void {
+        const burst = this.bursts.get(channelId);
+        if (!burst) {
+            return;
+        }
+
+        this.bursts.delete(channelId);
+        if (burst.messages.length > 1) {
+            logger.info({ channelId, count: burst.messages.length }, "Coalesced mentions into one reply");
+        }
+        this.onBurst(burst.messages);
+    }
+}
+
+export type { CoalescerOptions };
@@ -1,18 +1,101 @@
-import { Client, Message, TextChannel, ChannelType, BaseGuildTextChannel, DMChannel, TextBasedChannel } from "discord.js";
+import { Client, Message, PartialMessage, ReadonlyCollection, BaseGuildTextChannel, DMChannel, TextBasedChannel, SnowflakeUtil, ChannelType } from "discord.js";
 import { GroqHandler } from "../../groqApi";
 import { ImageProcessor } from "./ImageProcessor";
+import { DocumentProcessor } from "./DocumentProcessor";
 import { ContextBuilder } from "./ContextBuilder";
 import { BotMentionHandler } from "./BotMentionHandler";
+import { FailureReplyPolicy } from "./FailureReplyPolicy";
 import { ChannelCacheManager } from "../cache/ChannelCacheManager";
+import { FileCacheStorage } from "../cache/FileCacheStorage";
+import { MemoryCacheStorage } from "../cache/MemoryCacheStorage";
+import { ImageAnalysisCache } from "../cache/ImageAnalysisCache";
+import { CacheStorageBackend, RetentionOptions } from "../cache/types";
+import { BotIdentity, CachedMessage, ImageAnalysis } from "../../types";
 import { createLogger } from "../../utils/logger";
+import { summarizeEmbeds } from "../../utils/embeds";
 import { IntervalMessageHandler } from "./IntervalMessageHandler";
 import { EmojiManager } from "../emoji/EmojiManager";
 import { BotInteractionQueue } from "./BotInteractionQueue";
+import { MentionCoalescer } from "./MentionCoalescer";
+import { createToolRegistry } from "../../tools";
+import { ConversationSummarizer } from "../summary/ConversationSummarizer";
+import { UserMemoryStore } from "../memory/UserMemoryStore";
+import { MemoryExtractor } from "../memory/MemoryExtractor";
+import { MemoryCommandHandler } from "../memory/MemoryCommandHandler";
+import { StatusCommandHandler } from "../status/StatusCommandHandler";
+import { InteractionRateLimiter } from "../ratelimit/InteractionRateLimiter";
+import { UsageTracker } from "../usage/UsageTracker";
+import { createPluginManagerFromConfig, PluginManager } from "../../plugins";
+import { loadSystemMessages } from "../../config/systemMessages";
 import path from "path";
 import fs from "fs/promises";
 
 const logger = createLogger("MessageHandler");
 
+/**
+ * Default age after which persisted messages are dropped
+ */
+const DEFAULT_CACHE_MAX_AGE_HOURS = 24 * 7;
+
+/**
+ * Default memory budget shared by all channel caches
+ */
+const DEFAULT_CACHE_MAX_MB = 64;
+
+/**
+ * Default number of images whose analyses are remembered by content
+ */
+const DEFAULT_IMAGE_CACHE_ENTRIES = 2000;
+
+/**
+ * Default image pipeline limits: images prepared and analyzed at once, images
+ * analyzed per message, largest attachment analyzed, and the longest edge
+ * images are downscaled to
+ */
+const DEFAULT_IMAGE_CONCURRENCY = 3;
+const DEFAULT_IMAGE_MAX_PER_MESSAGE = 4;
+const DEFAULT_IMAGE_MAX_MB = 20;
+const DEFAULT_IMAGE_MAX_DIMENSION = 1024;
+
+/**
+ * Default limits for text file attachments: how much of each file is read,
+ * and files read per message
+ */
+const DEFAULT_DOCUMENT_MAX_KB = 512;
+const DEFAULT_DOCUMENT_MAX_PER_MESSAGE = 3;
+
+/**
+ * Default scheduling limits for replies: channels answered at once,
+ * requests waiting per channel, and how long a request may wait
+ */
+const DEFAULT_QUEUE_CONCURRENCY = 3;
+const DEFAULT_QUEUE_MAX_DEPTH = 5;
+const DEFAULT_QUEUE_DEADLINE_SECONDS = 120;
+
+/**
+ * Default quiet period for merging a burst of mentions into one reply,
+ * and the longest a burst may be held back
+ */
+const DEFAULT_MENTION_COALESCE_MS = 2000;
+const MENTION_COALESCE_MAX_WAIT_MS = 8000;
+
+/**
+ * Queue priorities: direct messages first, then mentions and replies
+ */
+const DM_PRIORITY = 2;
+const MENTION_PRIORITY = 1;
+
+/**
+ * A burst of mentions waiting in the interaction queue. Its messages change
+ * when one of them is edited or deleted before the reply starts.
+ */
+interface QueuedBurst {
+    channelId: string;
+    messages: Message[];
+    /** The queued action answering the burst */
+    reply: () => Promise<void>;
+}
+
 /**
  * Type guard for channels that support typing indicators
  */
@@ -21,74 +104,179 @@ type TypingCapableChannel = TextBasedChannel & {
 };
 
 /**
- * Main message handling coordinator
+ * Configuration for one bot's message handling
+ */
+interface MessageHandlerOptions {
+    identity: BotIdentity;
+    /** Directory for this bot's persisted caches and memories */
+    dataDir: string;
+    pluginsConfigPath: string;
+    /** Persona configuration; the bundled system-messages.json when omitted */
+    systemMessagesPath?: string;
+}
+
+/**
+ * Main message handling coordinator. Each bot gets its own instance, with
+ * its own caches, queues and memories.
  */
 export class MessageHandler {
-    private static instance: MessageHandler;
     private readonly processingMessages: Set<string> = new Set();
+    private readonly backfilledChannels: Set<string> = new Set();
+    /** The waiting burst each queued mention belongs to */
+    private readonly queuedBursts: Map<string, QueuedBurst> = new Map();
     private cacheManager!: ChannelCacheManager;
     private imageProcessor!: ImageProcessor;
+    private documentProcessor!: DocumentProcessor;
     private contextBuilder!: ContextBuilder;
+    private summarizer!: ConversationSummarizer;
+    private memoryStore!: UserMemoryStore;
+    private memoryCommandHandler!: MemoryCommandHandler;
+    private statusCommandHandler!: StatusCommandHandler;
     private botMentionHandler!: BotMentionHandler;
     private intervalHandler!: IntervalMessageHandler;
     private emojiManager!: EmojiManager;
     private interactionQueue!: BotInteractionQueue;
+    private mentionCoalescer!: MentionCoalescer;
+    private rateLimiter!: InteractionRateLimiter;
+    private usageTracker!: UsageTracker;
+    private pluginManager!: PluginManager;
     private readonly groqHandler: GroqHandler;
-    private initialized = false;
+    private readonly options: MessageHandlerOptions;
+    private readonly inheritThreadContext = process.env.THREAD_INHERIT_CONTEXT !== "false";
 
-    private constructor(groqHandler: GroqHandler) {
+    constructor(groqHandler: GroqHandler, options: MessageHandlerOptions) {
         this.groqHandler = groqHandler;
-    }
-
-    public static async initialize(groqHandler: GroqHandler): Promise<MessageHandler> {
-        if (!MessageHandler.instance) {
-            const instance = new MessageHandler(groqHandler);
-            await instance.initializeComponents();
-            MessageHandler.instance = instance;
-        }
-        return MessageHandler.instance;
-    }
-
-    public static getInstance(): MessageHandler {
-        if (!MessageHandler.instance || !MessageHandler.instance.initialized) {
-            throw new Error("MessageHandler not initialized. Call initialize() first");
-        }
-        return MessageHandler.instance;
+        this.options = options;
     }
 
     /**
-     * Initializes all components
+     * Initializes all components. Must complete before messages are handled.
      */
-    private async initializeComponents(): Promise<void> {
+    public async initialize(): Promise<void> {
         try {
-            // Initialize components with in-memory cache only
-            this.cacheManager = new ChannelCacheManager({ maxSize: 20 });
-            this.imageProcessor = new ImageProcessor(this.groqHandler);
-            this.contextBuilder = new ContextBuilder(this.cacheManager, this.imageProcessor);
+            this.cacheManager = new ChannelCacheManager({
+                maxSize: 20,
+                maxTotalBytes: (Number(process.env.CACHE_MAX_MB) || DEFAULT_CACHE_MAX_MB) * 1024 * 1024,
+                maxArchivedMessages: 500,
+                storage: this.createCacheStorage(),
+                retention: this.getCacheRetention()
+            });
+            await this.cacheManager.loadFromStorage();
+            this.pluginManager = await createPluginManagerFromConfig(this.options.pluginsConfigPath);
+            this.pluginManager.attachToCache(this.cacheManager);
+            const imageAnalysisCache = new ImageAnalysisCache({
+                filePath: process.env.CACHE_STORAGE === "memory"
+                    ? undefined
+                    : path.join(this.options.dataDir, "image-analyses.json"),
+                maxEntries: Number(process.env.IMAGE_CACHE_ENTRIES) || DEFAULT_IMAGE_CACHE_ENTRIES
+            });
+            await imageAnalysisCache.load();
+            this.imageProcessor = new ImageProcessor(this.groqHandler, imageAnalysisCache, {
+                maxConcurrency: Number(process.env.IMAGE_CONCURRENCY) || DEFAULT_IMAGE_CONCURRENCY,
+                maxImagesPerMessage: Number(process.env.IMAGE_MAX_PER_MESSAGE) || DEFAULT_IMAGE_MAX_PER_MESSAGE,
+                maxImageBytes: (Number(process.env.IMAGE_MAX_MB) || DEFAULT_IMAGE_MAX_MB) * 1024 * 1024,
+                maxDimension: Number(process.env.IMAGE_MAX_DIMENSION) || DEFAULT_IMAGE_MAX_DIMENSION
+            });
+            this.documentProcessor = new DocumentProcessor({
+                maxDocumentBytes: (Number(process.env.DOCUMENT_MAX_KB) || DEFAULT_DOCUMENT_MAX_KB) * 1024,
+                maxDocumentsPerMessage: Number(process.env.DOCUMENT_MAX_PER_MESSAGE) || DEFAULT_DOCUMENT_MAX_PER_MESSAGE
+            });
+            this.summarizer = new ConversationSummarizer(this.groqHandler, this.cacheManager);
+            this.memoryStore = new UserMemoryStore({
+                filePath: path.join(this.options.dataDir, "user-memories.json"),
+                maxPerUser: 30
+            });
+            this.memoryCommandHandler = new MemoryCommandHandler(this.memoryStore);
+            const systemMessages = await loadSystemMessages(this.options.systemMessagesPath);
+            this.usageTracker = new UsageTracker({
+                filePath: path.join(this.options.dataDir, "usage.json"),
+                budgets: systemMessages.usageBudgets
+            });
+            await this.usageTracker.load();
+            this.groqHandler.setUsageTracker(this.usageTracker);
+            this.statusCommandHandler = new StatusCommandHandler(this.groqHandler, this.cacheManager, this.usageTracker);
+            this.rateLimiter = new InteractionRateLimiter(systemMessages.rateLimits);
+            this.contextBuilder = new ContextBuilder(this.options.identity.id, this.cacheManager, this.imageProcessor, this.summarizer, {
+                inheritParentContext: this.inheritThreadContext,
+                parentContextSize: 10
+            }, this.documentProcessor);
+            this.groqHandler.setToolRegistry(createToolRegistry(this.cacheManager, this.imageProcessor, this.documentProcessor));
             this.botMentionHandler = new BotMentionHandler(
                 this.groqHandler,
                 this.imageProcessor,
                 this.contextBuilder,
-                this.cacheManager
+                this.cacheManager,
+                process.env.PROMPT_MODE === "flattened" ? "flattened" : "structured",
+                this.memoryStore,
+                new MemoryExtractor(this.groqHandler, this.memoryStore),
+                this.pluginManager,
+                new FailureReplyPolicy(systemMessages.failureReplies),
+                this.documentProcessor
             );
             this.intervalHandler = new IntervalMessageHandler(
                 this.groqHandler,
                 this.contextBuilder,
-                this.cacheManager
+                this.cacheManager,
+                this.pluginManager
             );
             this.emojiManager = new EmojiManager();
             this.interactionQueue = new BotInteractionQueue({
-                minDelayMs: 1500
+                minDelayMs: 1500,
+                maxConcurrency: Number(process.env.QUEUE_CONCURRENCY) || DEFAULT_QUEUE_CONCURRENCY,
+                maxDepth: Number(process.env.QUEUE_MAX_DEPTH) || DEFAULT_QUEUE_MAX_DEPTH,
+                // Someone who keeps pinging a backed-up channel only gets their latest burst answered
+                overflowPolicy: "coalesce",
+                defaultDeadlineMs: (Number(process.env.QUEUE_DEADLINE_SECONDS) || DEFAULT_QUEUE_DEADLINE_SECONDS) * 1000
             });
+            this.mentionCoalescer = new MentionCoalescer(
+                {
+                    // MENTION_COALESCE_MS=0 answers every mention on its own
+                    windowMs: process.env.MENTION_COALESCE_MS
+                        ? Number(process.env.MENTION_COALESCE_MS)
+                        : DEFAULT_MENTION_COALESCE_MS,
+                    maxWaitMs: MENTION_COALESCE_MAX_WAIT_MS
+                },
+                messages => this.enqueueMentions(messages)
+            );
 
-            this.initialized = true;
-            logger.info("MessageHandler initialized successfully");
+            logger.info({ botId: this.options.identity.id }, "MessageHandler initialized successfully");
         } catch (error) {
             logger.error({ error }, "Failed to initialize MessageHandler");
             throw error;
         }
     }
 
+    /**
+     * Creates the cache storage backend selected by CACHE_STORAGE
+     */
+    private createCacheStorage(): CacheStorageBackend {
+        if (process.env.CACHE_STORAGE === "memory") {
+            return new MemoryCacheStorage();
+        }
+        return new FileCacheStorage(path.join(this.options.dataDir, "cache"));
+    }
+
+    /**
+     * Reads the cache retention policy from CACHE_MAX_AGE_HOURS and the
+     * per-channel overrides in CACHE_CHANNEL_RETENTION (a JSON object of
+     * channel ID to { maxMessages, maxAgeMs })
+     */
+    private getCacheRetention(): RetentionOptions {
+        const maxAgeHours = Number(process.env.CACHE_MAX_AGE_HOURS) || DEFAULT_CACHE_MAX_AGE_HOURS;
+        const retention: RetentionOptions = {
+            default: { maxAgeMs: maxAgeHours * 60 * 60 * 1000 }
+        };
+
+        if (process.env.CACHE_CHANNEL_RETENTION) {
+            try {
+                retention.channels = JSON.parse(process.env.CACHE_CHANNEL_RETENTION);
+            } catch (error) {
+                logger.error({ error }, "Invalid CACHE_CHANNEL_RETENTION, ignoring per-channel retention");
+            }
+        }
+        return retention;
+    }
+
     /**
      * Main message handling entry point
      */
@@ -142,29 +330,38 @@ export class MessageHandler {
                 channelId: message.channelId
             }, "Processing new message");
 
+            // Commands are answered directly and kept out of the conversation
+            if (
+                await this.memoryCommandHandler.handleCommand(message)
+                || await this.statusCommandHandler.handleCommand(message)
+            ) {
+                return;
+            }
+
             // Check if message is a bot interaction
-            const isMentioned = message.mentions.users.has(client.user?.id ?? "");
-            const isReplyToBot = message.reference?.messageId && 
-                (await message.channel.messages.fetch(message.reference.messageId))
-                    .author.id === client.user?.id;
+            const isDirectMessage = message.channel.isDMBased();
+            const isBotInteraction = await this.isBotInteraction(message);
+
+            this.cacheManager.setGuild(message.channelId, message.guildId);
+
+            // DMs and private threads get their own context that never surfaces anywhere else
+            if (isDirectMessage || message.channel.type === ChannelType.PrivateThread) {
+                this.cacheManager.markPrivate(message.channelId);
+            }
 
             // If this is a bot interaction, ensure cache is initialized first
-            if ((isMentioned || isReplyToBot) && message.channel.type === ChannelType.GuildText) {
+            if (isBotInteraction) {
                 await this.initializeCache(message.channel);
             }
 
             // Cache the current message
             await this.processNormalMessage(message);
 
-            // Then handle bot interactions if needed
-            if (isMentioned || isReplyToBot) {
-                await this.interactionQueue.enqueue(
-                    async () => {
-                        await this.botMentionHandler.handleMention(message);
-                    },
-                    message.channel,
-                    1
-                );
+            // Then handle bot interactions if needed. Rate-limited messages
+            // stay in the conversation but don't get a reply of their own.
+            if (isBotInteraction && await this.rateLimiter.allow(message)) {
+                // Mentions arriving close together are answered with one reply
+                this.mentionCoalescer.add(message);
             }
         } catch (error) {
             logger.error({ error, messageId }, "Error in processMessage");
@@ -173,27 +370,217 @@ export class MessageHandler {
         }
     }
 
+    /**
+     * Whether a message is addressed to the bot: every DM, mentions of the bot
+     * and replies to its messages
+     */
+    private async isBotInteraction(message: Message): Promise<boolean> {
+        const botId = this.options.identity.id;
+        if (message.channel.isDMBased() || message.mentions.users.has(botId)) {
+            return true;
+        }
+
+        const referencedId = message.reference?.messageId;
+        if (!referencedId) {
+            return false;
+        }
+        try {
+            return (await message.channel.messages.fetch(referencedId)).author.id === botId;
+        } catch (error) {
+            logger.warn({ error, messageId: message.id, referencedMessageId: referencedId }, "Failed to fetch replied-to message");
+            return false;
+        }
+    }
+
+    /**
+     * Queues one reply to a burst of mentions in a channel. When the channel's
+     * queue overflows, a waiting burst from exactly the same people is replaced.
+     */
+    private enqueueMentions(messages: Message[]): void {
+        const latest = messages[messages.length - 1];
+        const authorIds = Array.from(new Set(messages.map(message => message.author.id))).sort();
+        const burst: QueuedBurst = {
+            channelId: latest.channelId,
+            messages,
+            reply: async () => {
+                forget();
+                await this.botMentionHandler.handleMentions(burst.messages);
+            }
+        };
+        const forget = () => {
+            for (const { id } of messages) {
+                if (this.queuedBursts.get(id) === burst) {
+                    this.queuedBursts.delete(id);
+                }
+            }
+        };
+        messages.forEach(message => this.queuedBursts.set(message.id, burst));
+
+        this.interactionQueue.enqueue(burst.reply, latest.channel, {
+            priority: latest.channel.isDMBased() ? DM_PRIORITY : MENTION_PRIORITY,
+            coalesceKey: authorIds.join(","),
+            onDiscard: forget
+        });
+    }
+
+    /**
+     * Updates a burst still waiting in the queue after one of its messages was
+     * edited or deleted. A burst left empty is taken out of the queue.
+     * @param edited The edited message, or undefined to drop the message from its burst
+     */
+    private reshapeQueuedBurst(messageId: string, edited?: Message): void {
+        const burst = this.queuedBursts.get(messageId);
+        if (!burst) {
+            return;
+        }
+
+        if (edited) {
+            burst.messages = burst.messages.map(message => message.id === messageId ? edited : message);
+            return;
+        }
+
+        this.queuedBursts.delete(messageId);
+        burst.messages = burst.messages.filter(message => message.id !== messageId);
+        if (burst.messages.length === 0) {
+            this.interactionQueue.remove(burst.channelId, burst.reply);
+        }
+    }
+
     /**
      * Processes a normal message (no bot interaction)
      */
     private async processNormalMessage(message: Message): Promise<void> {
         // Process images and cache the message
         const images = await this.imageProcessor.processImages(message);
-        this.cacheManager.addMessage(message.channelId, {
+        this.cacheManager.addMessage(message.channelId, this.toCachedMessage(message, images));
+    }
+
+    /**
+     * Converts a Discord message and its image analyses to a cache entry
+     * @param existing An earlier entry for the message, whose files are kept if unchanged
+     */
+    private toCachedMessage(message: Message, images: ImageAnalysis[], existing?: CachedMessage): CachedMessage {
+        return {
             id: message.id,
             content: message.content,
             authorId: message.author.id,
             authorName: message.member?.displayName || message.author.username,
             timestamp: message.createdAt,
             images,
+            embeds: summarizeEmbeds(message),
+            documents: this.documentProcessor.processDocuments(message, existing?.documents),
             referencedMessage: message.reference?.messageId
-        });
+        };
+    }
+
+    /**
+     * Updates a cached message after it was edited or its link previews
+     * arrived, keeping the analyses of images that didn't change
+     */
+    public async handleMessageUpdate(message: Message | PartialMessage): Promise<void> {
+        const cached = this.cacheManager.findMessage(message.id);
+        if (!cached) {
+            return;
+        }
+
+        try {
+            const updated = message.partial ? await message.fetch() : message;
+            const images = await this.imageProcessor.processImages(updated, cached.images);
+            const entry = this.toCachedMessage(updated, images, cached);
+            const documents = entry.documents ?? [];
+            const cachedDocuments = cached.documents ?? [];
+
+            const unchanged = updated.content === cached.content
+                && images.length === cached.images.length
+                && images.every(image => cached.images.includes(image))
+                && documents.length === cachedDocuments.length
+                && documents.every(document => cachedDocuments.includes(document))
+                && JSON.stringify(entry.embeds) === JSON.stringify(cached.embeds ?? []);
+            if (unchanged) {
+                return;
+            }
+
+            this.cacheManager.updateMessage(updated.channelId, entry);
+            logger.debug({ messageId: message.id, channelId: updated.channelId }, "Updated edited message in cache");
+
+            // Link previews arriving only add to a message, so a reply already underway carries on
+            const edited = updated.content !== cached.content
+                || cached.images.some(image => !images.includes(image))
+                || cachedDocuments.some(document => !documents.includes(document));
+            if (!edited) {
+                return;
+            }
+
+            // A reply still being generated for the old text is superseded by one for the edit.
+            // An edit that no longer addresses the bot drops out, leaving the rest of its burst.
+            const addressed = await this.isBotInteraction(updated);
+            if (!addressed) {
+                this.mentionCoalescer.remove(updated.id, updated.channelId);
+            }
+            this.reshapeQueuedBurst(updated.id, addressed ? updated : undefined);
+            const burst = this.botMentionHandler.cancel(updated.id, "Message was edited")
+                .filter(pending => addressed || pending.id !== updated.id)
+                .map(pending => pending.id === updated.id ? updated : pending);
+            if (burst.length > 0) {
+                this.enqueueMentions(burst);
+            }
+        } catch (error) {
+            logger.error({ error, messageId: message.id }, "Failed to update edited message in cache");
+        }
+    }
+
+    /**
+     * Removes a deleted message from the cache and stops any reply to it
+     */
+    public handleMessageDelete(message: Message | PartialMessage): void {
+        this.mentionCoalescer.remove(message.id, message.channelId);
+        this.reshapeQueuedBurst(message.id);
+        // The rest of a burst still gets its reply
+        const remaining = this.botMentionHandler.cancel(message.id, "Message was deleted")
+            .filter(pending => pending.id !== message.id);
+        if (remaining.length > 0) {
+            this.enqueueMentions(remaining);
+        }
+
+        if (this.cacheManager.deleteMessage(message.channelId, message.id)) {
+            logger.debug({ messageId: message.id, channelId: message.channelId }, "Removed deleted message from cache");
+        }
+    }
+
+    /**
+     * Removes bulk-deleted messages from the cache
+     */
+    public handleMessageBulkDelete(messages: ReadonlyCollection<string, Message | PartialMessage>): void {
+        for (const message of messages.values()) {
+            this.handleMessageDelete(message);
+        }
     }
 
     /**
-     * Initializes or completes the cache for a channel
+     * Initializes or completes the cache for a channel. Threads also fill
+     * their parent channel's cache when they inherit its context.
      */
-    private async initializeCache(channel: TextChannel): Promise<void> {
+    private async initializeCache(channel: TextBasedChannel): Promise<void> {
+        const fetched = await this.fillCache(channel);
+
+        if (channel.isThread() && this.inheritThreadContext && channel.parent?.isTextBased()) {
+            await this.fillCache(channel.parent);
+        }
+
+        // Start interval monitoring for this channel if not already monitoring.
+        // DMs never get unprompted messages.
+        if (fetched && channel.isSendable() && !channel.isDMBased()) {
+            this.intervalHandler.startMonitoring(channel);
+        }
+    }
+
+    /**
+     * Backfills and completes the cache for a single channel
+     * @returns Whether older history had to be fetched
+     */
+    private async fillCache(channel: TextBasedChannel): Promise<boolean> {
+        await this.backfillCache(channel);
+
         const cache = this.cacheManager.getCache(channel.id);
         const maxSize = this.cacheManager.getMaxSize();
         
@@ -203,7 +590,7 @@ export class MessageHandler {
         
         // If cache is already full, no need to fetch more
         if (messagesNeeded <= 0) {
-            return;
+            return false;
         }
 
         logger.info({ 
@@ -226,30 +613,60 @@ export class MessageHandler {
         const sortedMessages = Array.from(messages.values())
             .sort((a, b) => a.createdTimestamp - b.createdTimestamp);
 
+        await this.cacheFetchedMessages(channel, sortedMessages);
+        return true;
+    }
+
+    /**
+     * Fetches messages posted since the newest persisted message, once per
+     * channel per run, so a cache reloaded from storage has no gap from the
+     * time the bot was offline. Only the latest page is fetched: anything
+     * older would be evicted again to make room for it.
+     */
+    private async backfillCache(channel: TextBasedChannel): Promise<void> {
+        if (this.backfilledChannels.has(channel.id)) {
+            return;
+        }
+        this.backfilledChannels.add(channel.id);
+
+        const lastMessageId = this.cacheManager.getCache(channel.id)?.lastMessageId;
+        if (!lastMessageId) {
+            return;
+        }
+
+        try {
+            const messages = await channel.messages.fetch({ limit: this.cacheManager.getMaxSize() });
+            const lastTimestamp = SnowflakeUtil.timestampFrom(lastMessageId);
+            const sortedMessages = Array.from(messages.values())
+                .filter(message => message.id !== lastMessageId && message.createdTimestamp >= lastTimestamp)
+                .sort((a, b) => a.createdTimestamp - b.createdTimestamp);
+
+            logger.info({ channelId: channel.id, fetched: sortedMessages.length }, "Backfilling persisted channel cache");
+            await this.cacheFetchedMessages(channel, sortedMessages);
+        } catch (error) {
+            logger.warn({ error, channelId: channel.id }, "Failed to backfill persisted channel cache");
+        }
+    }
+
+    /**
+     * Caches fetched messages, along with referenced messages that aren't
+     * cached yet. Their images are only analyzed once they go into a prompt.
+     */
+    private async cacheFetchedMessages(channel: TextBasedChannel, sortedMessages: Message[]): Promise<void> {
         for (const message of sortedMessages) {
             // Process current message's images
             const images = await this.imageProcessor.processImages(message);
             
             // Handle referenced message if it exists and isn't already cached
             if (message.reference?.messageId) {
-                const existingCache = this.cacheManager.getCache(channel.id);
-                const isReferencedMessageCached = existingCache?.messages
-                    .some(m => m.id === message.reference?.messageId);
+                const isReferencedMessageCached = !!this.cacheManager.findMessage(message.reference.messageId, channel.id);
                 
                 if (!isReferencedMessageCached) {
                     try {
                         const referencedMessage = await message.fetchReference();
                         const refImages = await this.imageProcessor.processImages(referencedMessage);
                         
-                        await this.cacheManager.addMessage(channel.id, {
-                            id: referencedMessage.id,
-                            content: referencedMessage.content,
-                            authorId: referencedMessage.author.id,
-                            authorName: referencedMessage.member?.displayName || referencedMessage.author.username,
-                            timestamp: referencedMessage.createdAt,
-                            images: refImages,
-                            referencedMessage: referencedMessage.reference?.messageId
-                        });
+                        await this.cacheManager.addMessage(channel.id, this.toCachedMessage(referencedMessage, refImages));
                     } catch (error) {
                         logger.warn({ 
                             error, 
@@ -261,19 +678,8 @@ export class MessageHandler {
             }
 
             // Add the current message to cache
-            await this.cacheManager.addMessage(channel.id, {
-                id: message.id,
-                content: message.content,
-                authorId: message.author.id,
-                authorName: message.member?.displayName || message.author.username,
-                timestamp: message.createdAt,
-                images,
-                referencedMessage: message.reference?.messageId
-            });
+            await this.cacheManager.addMessage(channel.id, this.toCachedMessage(message, images));
         }
-
-        // Start interval monitoring for this channel if not already monitoring
-        this.intervalHandler.startMonitoring(channel);
     }
 
     // Add method to stop monitoring when needed
@@ -296,10 +702,20 @@ export class MessageHandler {
      */
     public async cleanup(): Promise<void> {
         try {
-            // Stop all interval monitoring
+            // Stop all interval monitoring and abandon replies in progress
             for (const channel of this.intervalHandler.getMonitoredChannels()) {
                 this.stopChannelMonitoring(channel);
             }
+            this.mentionCoalescer.clear();
+            this.interactionQueue.clear();
+            this.botMentionHandler.cancelAll("Shutting down");
+
+            // Write any pending cache changes, image analyses and usage totals to storage
+            await this.cacheManager.flush();
+            await this.imageProcessor.flush();
+            await this.usageTracker.flush();
+
+            await this.pluginManager.runShutdown();
 
             logger.info("Successfully cleaned up resources");
         } catch (error) {
@@ -308,5 +724,7 @@ export class MessageHandler {
     }
 }
 
+export type { MessageHandlerOptions };
+
 // Add a default export
 export default MessageHandler; 
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { Message } from "discord.js";
+import { createLogger } from "../../utils/logger";
+import { BucketLimit, RateLimitConfig, RateLimitDecision, RateLimitScope } from "./types";
+
+const logger = createLogger("InteractionRateLimiter");
+
+/**
+ * Used for anything missing from the rateLimits configuration
+ */
+const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+    user: { capacity: 5, refillPerMinute: 3 },
+    channel: { capacity: 15, refillPerMinute: 10 },
+    guild: { capacity: 40, refillPerMinute: 30 },
+    exemptRoles: [],
+    onLimited: "react",
+    reaction: "⏳",
+    notice: "slow down fren, try again in {{seconds}}s :pepesad:"
+};
+
+/**
+ * Buckets are swept once this many exist, dropping the ones that are full again
+ */
+const SWEEP_THRESHOLD = 1000;
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+/**
+ * Token-bucket limits on bot interactions per user, channel and guild, so one
+ * person or server can't drain the LLM quota for everyone
+ */
+export class InteractionRateLimiter {
+    private readonly config: RateLimitConfig;
+    private readonly buckets: Map<string, Bucket> = new Map();
+    /** When each user's cooldown notice stops applying, so it's shown once per cooldown */
+    private readonly notifiedUntil: Map<string, number> = new Map();
+
+    /**
+     * @param configured The rateLimits section; missing settings keep their defaults
+     */
+    constructor(configured: Partial<RateLimitConfig> = {}) {
+        this.config = { ...DEFAULT_RATE_LIMITS, ...configured };
+    }
+
+    /**
+     * Checks a bot interaction against the limits and tells the author when
+     * they hit one
+     * @returns true if the interaction may go ahead
+     */
+    public async allow(message: Message): Promise<boolean> {
+        if (this.isExempt(message)) {
+            return true;
+        }
+
+        const decision = this.consume([
+            ["user", message.author.id],
+            ["channel", message.channelId],
+            ["guild", message.guildId]
+        ]);
+        if (decision.allowed) {
+            return true;
+        }
+
+        logger.info({
+            userId: message.author.id,
+            channelId: message.channelId,
+            guildId: message.guildId,
+            scope: decision.scope,
+            retryAfterMs: decision.retryAfterMs
+        }, "Interaction rate limited");
+
+        await this.notify(message, decision.retryAfterMs);
+        return false;
+    }
+
+    /**
+     * Takes a token from every applicable bucket, or from none if any is empty
+     */
+    private consume(scopes: Array<[RateLimitScope, string | null]>): RateLimitDecision {
+        const now = Date.now();
+        const applicable = scopes
+            .filter((entry): entry is [RateLimitScope, string] => entry[1] !== null && !!this.config[entry[0]])
+            .map(([scope, id]) => {
+                const limit = this.config[scope]!;
+                return { scope, limit, bucket: this.refill(`${scope}:${id}`, limit, now) };
+            });
+
+        const empty = applicable.find(({ bucket }) => bucket.tokens < 1);
+        if (empty) {
+            const perMs = empty.limit.refillPerMinute / 60000;
+            const retryAfterMs = perMs > 0 ? Math.ceil((1 - empty.bucket.tokens) / perMs) : Infinity;
+            return { allowed: false, scope: empty.scope, retryAfterMs };
+        }
+
+        for (const { bucket } of applicable) {
+            bucket.tokens -= 1;
+        }
+        return { allowed: true };
+    }
+
+    /**
+     * Gets a bucket with the tokens earned since it was last used
+     */
+    private refill(key: string, limit: BucketLimit, now: number): Bucket {
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            if (this.buckets.size >= SWEEP_THRESHOLD) {
+                this.sweep(now);
+            }
+            bucket = { tokens: limit.capacity, updatedAt: now };
+            this.buckets.set(key, bucket);
+            return bucket;
+        }
+
+        const earned = (now - bucket.updatedAt) / 60000 * limit.refillPerMinute;
+        bucket.tokens = Math.min(limit.capacity, bucket.tokens + earned);
+        bucket.updatedAt = now;
+        return bucket;
+    }
+
+    /**
+     * Forgets buckets that have refilled completely, since a new one is the same
+     */
+    private sweep(now: number): void {
+        for (const [key, bucket] of this.buckets) {
+            const limit = this.config[key.split(":")[0] as RateLimitScope];
+            const tokens = limit ? bucket.tokens + (now - bucket.updatedAt) / 60000 * limit.refillPerMinute : Infinity;
+            if (!limit || tokens >= limit.capacity) {
+                this.buckets.delete(key);
+            }
+        }
+        for (const [userId, until] of this.notifiedUntil) {
+            if (until <= now) {
+                this.notifiedUntil.delete(userId);
+            }
+        }
+    }
+
+    /**
+     * Whether the author has a role that bypasses the limits
+     */
+    private isExempt(message: Message): boolean {
+        const exempt = this.config.exemptRoles;
+        if (exempt.length === 0 || !message.member) {
+            return false;
+        }
+        return message.member.roles.cache.some(role => exempt.includes(role.id) || exempt.includes(role.name));
+    }
+
+    /**
+     * Tells the author they're on cooldown, at most once per cooldown
+     */
+    private async notify(message: Message, retryAfterMs: number): Promise<void> {
+        const now = Date.now();
+        if (this.config.onLimited === "ignore" || (this.notifiedUntil.get(message.author.id) ?? 0) > now) {
+            return;
+        }
+        this.notifiedUntil.set(message.author.id, now + retryAfterMs);
+
+        try {
+            if (this.config.onLimited === "react") {
+                await message.react(this.config.reaction);
+            } else {
+                const seconds = Number.isFinite(retryAfterMs) ? Math.ceil(retryAfterMs / 1000) : "a few";
+                await message.reply({
+                    content: this.config.notice.replace(/\{\{seconds\}\}/g, String(seconds)),
+                    allowedMentions: { repliedUser: false }
+                });
+            }
+        } catch (error) {
+            logger.warn({ error, messageId: message.id }, "Failed to send cooldown notice");
+        }
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * Scopes a rate limit can apply to
+ */
+type RateLimitScope = "user" | "channel" | "guild";
+
+/**
+ * A token bucket: up to `capacity` interactions in a burst, refilled steadily
+ */
+interface BucketLimit {
+    capacity: number;
+    refillPerMinute: number;
+}
+
+/**
+ * What the bot does when someone hits a limit:
+ * - react: adds the cooldown reaction to their message
+ * - reply: answers with the cooldown notice
+ * - ignore: stays quiet
+ */
+type LimitedAction = "react" | "reply" | "ignore";
+
+/**
+ * Rate limit configuration, from the rateLimits section of system-messages.json
+ */
+interface RateLimitConfig {
+    /** Limits per scope; a scope without one is unlimited */
+    user?: BucketLimit;
+    channel?: BucketLimit;
+    guild?: BucketLimit;
+    /** Role IDs or names that bypass every limit */
+    exemptRoles: string[];
+    onLimited: LimitedAction;
+    reaction: string;
+    /** Cooldown notice; {{seconds}} is replaced with the wait */
+    notice: string;
+}
+
+/**
+ * Outcome of checking an interaction against the limits
+ */
+type RateLimitDecision =
+    | { allowed: true }
+    | { allowed: false; scope: RateLimitScope; retryAfterMs: number };
+
+export type { RateLimitScope, BucketLimit, LimitedAction, RateLimitConfig, RateLimitDecision };
@@ -0,0 +1,88 @@
+import { Message, PermissionFlagsBits } from "discord.js";
+import { GroqHandler } from "../../groqApi";
+import { ChannelCacheManager } from "../cache/ChannelCacheManager";
+import { ModelHealth } from "../../providers";
+import { UsageTracker } from "../usage/UsageTracker";
+
+/**
+ * Prefix for status commands
+ */
+const COMMAND_PREFIX = "!";
+
+/**
+ * Handles the !status command, which reports model health, cache usage and
+ * token usage against the budget. Only members with Manage Server can use it.
+ */
+export class StatusCommandHandler {
+    constructor(
+        private readonly groqHandler: GroqHandler,
+        private readonly cacheManager: ChannelCacheManager,
+        private readonly usageTracker?: UsageTracker
+    ) {}
+
+    /**
+     * Handles the message if it is a status command
+     * @returns true if the message was a status command
+     */
+    public async handleCommand(message: Message): Promise<boolean> {
+        const [command] = message.content.trim().split(/\s+/);
+        if (command !== `${COMMAND_PREFIX}status`) {
+            return false;
+        }
+        if (!message.inGuild() || !message.member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+            await message.reply({ content: "only mods can check my status ser" });
+            return true;
+        }
+
+        const health = this.groqHandler.getModelHealth();
+        const modelLines = health.length > 0
+            ? health.map(model => this.formatModelHealth(model))
+            : ["all models healthy"];
+
+        const stats = this.cacheManager.getStats();
+        const cacheLine = `${stats.messages} messages across ${stats.channels} channels`
+            + ` (~${(stats.totalBytes / 1024 / 1024).toFixed(1)} MB, ${stats.archivedMessages} archived)`;
+
+        const sections = [`**models**\n${modelLines.join("\n")}`, `**cache**\n${cacheLine}`];
+        if (this.usageTracker) {
+            sections.push(`**usage**\n${this.formatUsage(message)}`);
+        }
+
+        await message.reply({
+            content: sections.join("\n\n"),
+            allowedMentions: { parse: [] }
+        });
+        return true;
+    }
+
+    /**
+     * Formats token usage of the server against its caps
+     */
+    private formatUsage(message: Message<true>): string {
+        const totals = this.usageTracker!.getTotals("guild", message.guildId);
+        const budget = this.usageTracker!.getBudget("guild");
+        const tokens = (period?: { promptTokens: number; completionTokens: number }) =>
+            period ? period.promptTokens + period.completionTokens : 0;
+        const cap = (limit?: number) => limit ? ` of ${limit}` : "";
+
+        const level = this.groqHandler.getUsageLevel({ guildId: message.guildId, userId: message.author.id });
+        return `today: ${tokens(totals.day)}${cap(budget?.dailyTokens)} tokens`
+            + `, this month: ${tokens(totals.month)}${cap(budget?.monthlyTokens)} tokens`
+            + (level !== "normal" ? `\ncutting back: ${level.replace(/_/g, " ")}` : "");
+    }
+
+    /**
+     * Formats one model's health as a status line
+     */
+    private formatModelHealth(model: ModelHealth): string {
+        const name = `${model.provider}/${model.model}`;
+        if (model.state === "open" && model.openUntil) {
+            const seconds = Math.ceil((model.openUntil.getTime() - Date.now()) / 1000);
+            return `${name}: cooling down for ${seconds}s after ${model.lastFailure ?? "failures"}`;
+        }
+        if (model.state === "half_open") {
+            return `${name}: recovering, next request is a trial`;
+        }
+        return `${name}: ${model.consecutiveFailures} recent failure(s)`;
+    }
+}
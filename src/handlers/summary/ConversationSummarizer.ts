@@ -0,0 +1,170 @@
+import { GroqHandler } from "../../groqApi";
+import { ChannelCacheManager } from "../cache/ChannelCacheManager";
+import { CacheEvents } from "../cache/types";
+import { CachedMessage } from "../../types";
+import { createLogger } from "../../utils/logger";
+import { formatImageLine } from "../../utils/images";
+import { formatEmbedLine } from "../../utils/embeds";
+import { formatDocumentLine } from "../../utils/documents";
+
+const logger = createLogger("ConversationSummarizer");
+
+/**
+ * Configuration options for the summarizer
+ */
+interface SummarizerOptions {
+    /** Number of evicted messages folded into the summary at once */
+    batchSize: number;
+    /** Evicted messages kept while the model is failing; older ones are dropped */
+    maxPendingMessages: number;
+}
+
+/**
+ * Keeps a running per-channel summary of messages evicted from the channel cache
+ */
+export class ConversationSummarizer {
+    private summaries: Map<string, string> = new Map();
+    private pending: Map<string, CachedMessage[]> = new Map();
+    private folding: Set<string> = new Set();
+    /** Bumped when a channel is cleared, so folds started before then are discarded */
+    private generations: Map<string, number> = new Map();
+    private readonly options: SummarizerOptions;
+
+    constructor(
+        private readonly groqHandler: GroqHandler,
+        private readonly cacheManager: ChannelCacheManager,
+        options: SummarizerOptions = { batchSize: 5, maxPendingMessages: 50 }
+    ) {
+        this.options = options;
+
+        cacheManager.on(CacheEvents.MESSAGE_REMOVED, (channelId: string, message: CachedMessage) => {
+            this.handleEviction(channelId, message);
+        });
+        cacheManager.on(CacheEvents.MESSAGE_DELETED, (channelId: string, message: CachedMessage) => {
+            this.dropPending(channelId, message.id);
+        });
+        cacheManager.on(CacheEvents.MESSAGE_UPDATED, (channelId: string, message: CachedMessage) => {
+            this.replacePending(channelId, message);
+        });
+        cacheManager.on(CacheEvents.CACHE_CLEARED, (channelId: string) => {
+            this.clear(channelId);
+        });
+    }
+
+    /**
+     * Gets the running summary for a channel, if one has been built
+     */
+    public getSummary(channelId: string): string | undefined {
+        return this.summaries.get(channelId);
+    }
+
+    /**
+     * Forgets the summary and pending messages for a channel
+     */
+    public clear(channelId: string): void {
+        this.summaries.delete(channelId);
+        this.pending.delete(channelId);
+        this.generations.set(channelId, (this.generations.get(channelId) ?? 0) + 1);
+    }
+
+    /**
+     * Drops a deleted message that hasn't been folded into the summary yet
+     */
+    private dropPending(channelId: string, messageId: string): void {
+        const pending = this.pending.get(channelId);
+        const index = pending?.findIndex(message => message.id === messageId) ?? -1;
+        if (index !== -1) {
+            pending?.splice(index, 1);
+        }
+    }
+
+    /**
+     * Swaps in the edited version of a message that hasn't been folded yet
+     */
+    private replacePending(channelId: string, message: CachedMessage): void {
+        const pending = this.pending.get(channelId);
+        const index = pending?.findIndex(m => m.id === message.id) ?? -1;
+        if (pending && index !== -1) {
+            pending[index] = message;
+        }
+    }
+
+    /**
+     * Queues an evicted message and folds a batch once enough have accumulated
+     */
+    private handleEviction(channelId: string, message: CachedMessage): void {
+        const pending = this.pending.get(channelId) ?? [];
+        pending.push(message);
+
+        if (pending.length > this.options.maxPendingMessages) {
+            pending.splice(0, pending.length - this.options.maxPendingMessages);
+        }
+        this.pending.set(channelId, pending);
+
+        if (pending.length >= this.options.batchSize && !this.folding.has(channelId)) {
+            void this.fold(channelId);
+        }
+    }
+
+    /**
+     * Folds pending messages into the channel summary, one batch at a time
+     */
+    private async fold(channelId: string): Promise<void> {
+        this.folding.add(channelId);
+
+        try {
+            while ((this.pending.get(channelId)?.length ?? 0) >= this.options.batchSize) {
+                const batch = this.pending.get(channelId)?.splice(0) ?? [];
+                const transcript = batch.map(message => this.formatMessage(message)).join("\n");
+                const generation = this.generations.get(channelId);
+
+                try {
+                    const summary = await this.groqHandler.summarizeConversation(
+                        this.summaries.get(channelId),
+                        transcript,
+                        { usage: { guildId: this.cacheManager.getGuildId(channelId), channelId } }
+                    );
+                    if (this.generations.get(channelId) !== generation) {
+                        logger.info({ channelId }, "Channel was cleared while summarizing, discarding summary");
+                        continue;
+                    }
+                    if (summary) {
+                        this.summaries.set(channelId, summary);
+                    }
+
+                    logger.info({
+                        channelId,
+                        foldedMessages: batch.length,
+                        summaryLength: summary.length
+                    }, "Folded evicted messages into channel summary");
+                } catch (error) {
+                    // Put the batch back so it's retried with the next one, unless the channel was cleared
+                    if (this.generations.get(channelId) === generation) {
+                        this.pending.get(channelId)?.unshift(...batch);
+                    }
+                    logger.error({ error, channelId }, "Failed to update channel summary");
+                    break;
+                }
+            }
+        } finally {
+            this.folding.delete(channelId);
+        }
+    }
+
+    /**
+     * Formats an evicted message for the summarization transcript
+     */
+    private formatMessage(message: CachedMessage): string {
+        const imageLines = message.images.map(formatImageLine);
+        const embedLines = (message.embeds ?? []).map(formatEmbedLine);
+        const documentLines = (message.documents ?? []).map(formatDocumentLine);
+        return [
+            `<@${message.authorId}> (${message.authorName}): ${message.content}`,
+            ...imageLines,
+            ...embedLines,
+            ...documentLines
+        ].join("\n");
+    }
+}
+
+export type { SummarizerOptions };
@@ -0,0 +1,234 @@
+import * as fs from "fs/promises";
+import { CompletionUsage } from "../../providers";
+import { createLogger } from "../../utils/logger";
+import { createSerialWriter, writeFileAtomic } from "../../utils/files";
+import {
+    BudgetLimit,
+    DegradationLevel,
+    StoredUsage,
+    UsageBudgetConfig,
+    UsageScope,
+    UsageTotals,
+    UsageTrackerOptions
+} from "./types";
+
+const logger = createLogger("UsageTracker");
+
+/**
+ * Used for anything missing from the usageBudgets configuration; no caps by default
+ */
+const DEFAULT_USAGE_BUDGETS: UsageBudgetConfig = {
+    skipLightAnalysisAt: 0.7,
+    instantModelAt: 0.9
+};
+
+/**
+ * Delay before recorded usage is written, so bursts of completions share one write
+ */
+const PERSIST_DELAY_MS = 5000;
+
+/**
+ * How many daily and monthly periods are kept before being pruned
+ */
+const DAYS_KEPT = 31;
+const MONTHS_KEPT = 12;
+
+type ScopeKind = "guild" | "channel" | "user";
+
+/**
+ * Records token usage per guild, channel and user over days and months, and
+ * decides how far the bot should cut back as a budget runs out
+ */
+export class UsageTracker {
+    private usage: StoredUsage = {};
+    private readonly budgets: UsageBudgetConfig;
+    private readonly options: UsageTrackerOptions;
+    private persistTimer?: NodeJS.Timeout;
+    private readonly writer = createSerialWriter();
+
+    constructor(options: UsageTrackerOptions) {
+        this.options = options;
+        this.budgets = { ...DEFAULT_USAGE_BUDGETS, ...options.budgets };
+    }
+
+    /**
+     * Loads persisted usage from disk
+     */
+    public async load(): Promise<void> {
+        try {
+            this.usage = JSON.parse(await fs.readFile(this.options.filePath, "utf-8")) as StoredUsage;
+            this.prune(new Date());
+            logger.info({ periods: Object.keys(this.usage).length }, "Loaded usage totals");
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                logger.error({ error }, "Failed to load usage totals, starting fresh");
+            }
+            this.usage = {};
+        }
+    }
+
+    /**
+     * Records a completion's usage against every scope it belongs to
+     * @param operation The GroqHandler operation, e.g. generateResponse
+     */
+    public record(
+        operation: string,
+        provider: string,
+        model: string,
+        usage: CompletionUsage,
+        scope: UsageScope = {}
+    ): void {
+        const now = new Date();
+        const levelBefore = this.getLevel(scope);
+        const tokens = usage.promptTokens + usage.completionTokens;
+
+        for (const period of this.periodKeys(now)) {
+            if (!this.usage[period]) {
+                this.usage[period] = {};
+                this.prune(now);
+            }
+            for (const key of this.scopeKeys(scope)) {
+                const totals = this.usage[period][key] ??= {
+                    requests: 0,
+                    promptTokens: 0,
+                    completionTokens: 0,
+                    operations: {},
+                    models: {}
+                };
+                totals.requests++;
+                totals.promptTokens += usage.promptTokens;
+                totals.completionTokens += usage.completionTokens;
+                const operationTotals = totals.operations[operation] ??= { requests: 0, tokens: 0 };
+                operationTotals.requests++;
+                operationTotals.tokens += tokens;
+                totals.models[`${provider}/${model}`] = (totals.models[`${provider}/${model}`] ?? 0) + tokens;
+            }
+        }
+
+        const levelAfter = this.getLevel(scope);
+        if (levelAfter !== levelBefore) {
+            logger.warn({ ...scope, degradation: levelAfter }, "Usage budget degradation level changed");
+        }
+
+        this.schedulePersist();
+    }
+
+    /**
+     * Gets how far the bot should cut back for a scope, based on the most
+     * used applicable cap
+     */
+    public getLevel(scope: UsageScope = {}): DegradationLevel {
+        const now = new Date();
+        const [day, month] = this.periodKeys(now);
+        let fraction = 0;
+
+        for (const [kind, id] of this.scopeEntries(scope)) {
+            const limit: BudgetLimit | undefined = this.budgets[kind];
+            if (limit?.dailyTokens) {
+                fraction = Math.max(fraction, this.tokensUsed(day, `${kind}:${id}`) / limit.dailyTokens);
+            }
+            if (limit?.monthlyTokens) {
+                fraction = Math.max(fraction, this.tokensUsed(month, `${kind}:${id}`) / limit.monthlyTokens);
+            }
+        }
+
+        if (fraction >= 1) return "refuse";
+        if (fraction >= this.budgets.instantModelAt) return "instant_model";
+        if (fraction >= this.budgets.skipLightAnalysisAt) return "skip_light_analysis";
+        return "normal";
+    }
+
+    /**
+     * Gets today's and this month's totals for one guild, channel or user
+     */
+    public getTotals(kind: ScopeKind, id: string): { day?: UsageTotals; month?: UsageTotals } {
+        const [day, month] = this.periodKeys(new Date());
+        return {
+            day: this.usage[day]?.[`${kind}:${id}`],
+            month: this.usage[month]?.[`${kind}:${id}`]
+        };
+    }
+
+    /**
+     * Gets the caps configured for a kind of scope
+     */
+    public getBudget(kind: ScopeKind): BudgetLimit | undefined {
+        return this.budgets[kind];
+    }
+
+    /**
+     * Writes pending usage immediately, e.g. before shutdown
+     */
+    public async flush(): Promise<void> {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+            this.persistTimer = undefined;
+            await this.persist();
+        }
+        await this.writer.idle();
+    }
+
+    private tokensUsed(period: string, key: string): number {
+        const totals = this.usage[period]?.[key];
+        return totals ? totals.promptTokens + totals.completionTokens : 0;
+    }
+
+    /**
+     * Gets the day ("2024-05-01") and month ("2024-05") keys, in UTC
+     */
+    private periodKeys(now: Date): [string, string] {
+        const day = now.toISOString().slice(0, 10);
+        return [day, day.slice(0, 7)];
+    }
+
+    private scopeEntries(scope: UsageScope): Array<[ScopeKind, string]> {
+        const entries: Array<[ScopeKind, string | null | undefined]> = [
+            ["guild", scope.guildId],
+            ["channel", scope.channelId],
+            ["user", scope.userId]
+        ];
+        return entries.filter((entry): entry is [ScopeKind, string] => !!entry[1]);
+    }
+
+    private scopeKeys(scope: UsageScope): string[] {
+        return this.scopeEntries(scope).map(([kind, id]) => `${kind}:${id}`);
+    }
+
+    /**
+     * Drops periods older than the retention window
+     */
+    private prune(now: Date): void {
+        const oldestDay = new Date(now.getTime() - DAYS_KEPT * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        const oldestMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - MONTHS_KEPT + 1, 1))
+            .toISOString().slice(0, 7);
+
+        for (const period of Object.keys(this.usage)) {
+            const expired = period.length === 10 ? period < oldestDay : period < oldestMonth;
+            if (expired) {
+                delete this.usage[period];
+            }
+        }
+    }
+
+    private schedulePersist(): void {
+        if (this.persistTimer) {
+            return;
+        }
+        this.persistTimer = setTimeout(() => {
+            this.persistTimer = undefined;
+            void this.persist();
+        }, PERSIST_DELAY_MS);
+        this.persistTimer.unref();
+    }
+
+    /**
+     * Writes usage totals to disk
+     */
+    private async persist(): Promise<void> {
+        try {
+            await this.writer.write(() => writeFileAtomic(this.options.filePath, JSON.stringify(this.usage, null, 2)));
+        } catch (error) {
+            logger.error({ error }, "Failed to persist usage totals");
+        }
+    }
+}
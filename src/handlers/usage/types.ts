@@ -0,0 +1,73 @@
+/**
+ * Who a completion is billed to. Each ID that is set gets the usage counted.
+ */
+interface UsageScope {
+    guildId?: string | null;
+    channelId?: string;
+    userId?: string;
+}
+
+/**
+ * Running totals for one scope over one period
+ */
+interface UsageTotals {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    /** Tokens and requests per operation (generateResponse, performLightAnalysis, ...) */
+    operations: Record<string, { requests: number; tokens: number }>;
+    /** Tokens per "provider/model" */
+    models: Record<string, number>;
+}
+
+/**
+ * Token caps for one kind of scope; a missing cap is unlimited
+ */
+interface BudgetLimit {
+    dailyTokens?: number;
+    monthlyTokens?: number;
+}
+
+/**
+ * How much a scope may spend before the bot starts cutting back.
+ * Thresholds are fractions of the tightest applicable cap.
+ */
+interface UsageBudgetConfig {
+    guild?: BudgetLimit;
+    channel?: BudgetLimit;
+    user?: BudgetLimit;
+    /** Stop light analysis of every cached image from this fraction on */
+    skipLightAnalysisAt: number;
+    /** Answer with the instant model only from this fraction on */
+    instantModelAt: number;
+}
+
+/**
+ * Steps the bot takes as a budget runs out, in order
+ */
+type DegradationLevel = "normal" | "skip_light_analysis" | "instant_model" | "refuse";
+
+/**
+ * Usage totals as persisted: period key ("2024-05-01" or "2024-05") to scope key to totals
+ */
+type StoredUsage = Record<string, Record<string, UsageTotals>>;
+
+/**
+ * Configuration options for the usage tracker
+ */
+interface UsageTrackerOptions {
+    /** Path of the JSON file usage totals are persisted to */
+    filePath: string;
+    /** The usageBudgets section; missing settings keep their defaults */
+    budgets?: Partial<UsageBudgetConfig>;
+}
+
+export type {
+    UsageScope,
+    UsageTotals,
+    BudgetLimit,
+    UsageBudgetConfig,
+    DegradationLevel,
+    StoredUsage,
+    UsageTrackerOptions
+};
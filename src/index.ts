@@ -1,64 +1,38 @@
 // src/index.ts
-import { Client, Events, GatewayIntentBits } from "discord.js";
 import { config } from "dotenv";
 import { createLogger } from "./utils/logger";
-import { GroqHandler } from "./groqApi";
-import MessageHandler from "./handlers/message/MessageHandler";
+import { createProvidersFromEnv, CircuitBreakers } from "./providers";
+import { loadBotConfigs } from "./botConfig";
+import { Bot } from "./Bot";
 
 config();
 
-const logger = createLogger("Bot");
+const logger = createLogger("Main");
 
-const client = new Client({
-    intents: [
-        GatewayIntentBits.Guilds,
-        GatewayIntentBits.GuildMessages,
-        GatewayIntentBits.MessageContent,
-        GatewayIntentBits.GuildMessageReactions,
-    ],
-});
-
-const groqHandler = new GroqHandler(process.env.GROQ_API_KEY || "");
-
-// Initialize the bot
-async function initializeBot(): Promise<void> {
+// Initialize the bots
+async function initializeBots(): Promise<void> {
     try {
-        // Initialize MessageHandler
-        await MessageHandler.initialize(groqHandler);
-        const messageHandler = MessageHandler.getInstance();
-
-        client.once(Events.ClientReady, async (readyClient) => {
-            logger.info(`Logged in as ${readyClient.user.tag}!`);
-            // Update emoji cache and load channel caches when bot is ready
-            await messageHandler.updateEmojis(readyClient);
-            logger.info("Bot initialization complete");
-        });
-
-        client.on(Events.MessageCreate, async (message) => {
-            if (message.author.bot) return;
-            await messageHandler.handleMessage(client, message);
-        });
+        const providers = createProvidersFromEnv();
+        // Bots share providers, and with them their rate limits
+        const circuitBreakers = new CircuitBreakers();
+        const bots = (await loadBotConfigs()).map(botConfig => new Bot(botConfig, providers, circuitBreakers));
 
         // Cleanup on exit
-        process.on("SIGINT", async () => {
-            logger.info("Received SIGINT. Cleaning up...");
-            await messageHandler.cleanup();
-            process.exit(0);
-        });
-
-        process.on("SIGTERM", async () => {
-            logger.info("Received SIGTERM. Cleaning up...");
-            await messageHandler.cleanup();
+        const shutdown = async (signal: string) => {
+            logger.info(`Received ${signal}. Cleaning up...`);
+            await Promise.all(bots.map(bot => bot.stop()));
             process.exit(0);
-        });
+        };
+        process.on("SIGINT", () => void shutdown("SIGINT"));
+        process.on("SIGTERM", () => void shutdown("SIGTERM"));
 
         // Login to Discord
-        await client.login(process.env.DISCORD_TOKEN);
+        await Promise.all(bots.map(bot => bot.start()));
     } catch (error) {
-        logger.error({ error }, "Failed to initialize bot");
+        logger.error({ error }, "Failed to initialize bots");
         process.exit(1);
     }
 }
 
-// Start the bot
-void initializeBot();
+// Start the bots
+void initializeBots();
@@ -0,0 +1,103 @@
+import { ChannelCacheManager } from "../handlers/cache/ChannelCacheManager";
+import { CacheEvents } from "../handlers/cache/types";
+import { CachedMessage } from "../types";
+import { createLogger } from "../utils/logger";
+import {
+    AfterGenerateEvent,
+    BeforeGenerateEvent,
+    BotPlugin,
+    PluginHook,
+    ReplySentEvent
+} from "./types";
+
+const logger = createLogger("PluginManager");
+
+/**
+ * Holds registered plugins and runs their hooks, isolating each plugin's errors
+ */
+export class PluginManager {
+    private plugins: BotPlugin[] = [];
+
+    /**
+     * Registers a plugin; hooks run in registration order
+     */
+    public register(plugin: BotPlugin): void {
+        this.plugins.push(plugin);
+        logger.info({ plugin: plugin.name }, "Registered plugin");
+    }
+
+    /**
+     * Checks whether any plugin implements a hook
+     */
+    public hasHook(hook: PluginHook): boolean {
+        return this.plugins.some(plugin => typeof plugin[hook] === "function");
+    }
+
+    /**
+     * Forwards cache additions to onMessageCached
+     */
+    public attachToCache(cacheManager: ChannelCacheManager): void {
+        cacheManager.on(CacheEvents.MESSAGE_ADDED, (channelId: string, message: CachedMessage) => {
+            if (!this.hasHook("onMessageCached")) return;
+
+            void this.runEach("onMessageCached", plugin => plugin.onMessageCached?.(channelId, message));
+        });
+    }
+
+    /**
+     * Runs beforeGenerate hooks, which may replace the event's context
+     */
+    public async runBeforeGenerate(event: BeforeGenerateEvent): Promise<void> {
+        await this.runEach("beforeGenerate", plugin => plugin.beforeGenerate?.(event));
+    }
+
+    /**
+     * Runs afterGenerate hooks, each seeing the previous hook's result
+     * @returns The final reply, or null if a plugin vetoed it or left nothing to send
+     */
+    public async runAfterGenerate(event: AfterGenerateEvent): Promise<string | null> {
+        let content = event.content;
+
+        for (const plugin of this.plugins) {
+            if (!plugin.afterGenerate) continue;
+
+            try {
+                const result = await plugin.afterGenerate({ ...event, content });
+                // Discord can't send an empty message, so an emptied reply is a veto too
+                if (result === null || (typeof result === "string" && !result.trim())) {
+                    logger.info({ plugin: plugin.name, channelId: event.channelId }, "Plugin vetoed reply");
+                    return null;
+                }
+                if (typeof result === "string") {
+                    content = result;
+                }
+            } catch (error) {
+                logger.error({ error, plugin: plugin.name, hook: "afterGenerate" }, "Plugin hook failed");
+            }
+        }
+        return content;
+    }
+
+    public async runReplySent(event: ReplySentEvent): Promise<void> {
+        await this.runEach("onReplySent", plugin => plugin.onReplySent?.(event));
+    }
+
+    public async runShutdown(): Promise<void> {
+        await this.runEach("onShutdown", plugin => plugin.onShutdown?.());
+    }
+
+    /**
+     * Runs a hook on every plugin in order, logging failures
+     */
+    private async runEach(hook: PluginHook, run: (plugin: BotPlugin) => unknown): Promise<void> {
+        for (const plugin of this.plugins) {
+            if (!plugin[hook]) continue;
+
+            try {
+                await run(plugin);
+            } catch (error) {
+                logger.error({ error, plugin: plugin.name, hook }, "Plugin hook failed");
+            }
+        }
+    }
+}
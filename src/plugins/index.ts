@@ -0,0 +1,51 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { PluginManager } from "./PluginManager";
+import { BotPlugin, PluginConfigEntry, PluginFactory } from "./types";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("Plugins");
+
+/**
+ * Creates a plugin manager with the plugins listed in a JSON config file:
+ * { "plugins": [{ "module": "./my-plugin", "options": { ... } }] }
+ * A missing file means no plugins. A plugin that fails to load is skipped.
+ */
+export async function createPluginManagerFromConfig(configPath: string): Promise<PluginManager> {
+    const manager = new PluginManager();
+
+    let entries: PluginConfigEntry[];
+    try {
+        const config = JSON.parse(await fs.readFile(configPath, "utf-8")) as { plugins?: PluginConfigEntry[] };
+        entries = config.plugins ?? [];
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            logger.error({ error, configPath }, "Failed to read plugin config");
+        }
+        return manager;
+    }
+
+    for (const entry of entries.filter(entry => entry.enabled !== false)) {
+        const modulePath = path.resolve(path.dirname(configPath), entry.module);
+        try {
+            const loaded = await import(modulePath) as { createPlugin?: PluginFactory; default?: PluginFactory };
+            const factory = loaded.createPlugin ?? loaded.default;
+            if (typeof factory !== "function") {
+                throw new Error("Plugin module must export createPlugin or a default factory");
+            }
+
+            const plugin: BotPlugin = await factory(entry.options ?? {});
+            if (!plugin?.name) {
+                throw new Error("Plugin must have a name");
+            }
+            manager.register(plugin);
+        } catch (error) {
+            logger.error({ error, module: entry.module }, "Failed to load plugin");
+        }
+    }
+
+    return manager;
+}
+
+export { PluginManager };
+export * from "./types";
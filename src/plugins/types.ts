@@ -0,0 +1,89 @@
+import { Message } from "discord.js";
+import { PromptContext } from "../groqApi";
+import { CachedMessage } from "../types";
+
+/**
+ * Passed to beforeGenerate. Plugins may replace `context` to change the prompt.
+ * The prompt is built again for a fallback model with a smaller or larger
+ * context window, so the hook can run more than once per reply.
+ */
+interface BeforeGenerateEvent {
+    channelId: string;
+    /** The message being answered; absent for unprompted interjections */
+    message?: Message;
+    context: PromptContext;
+}
+
+/**
+ * Passed to afterGenerate with the generated reply
+ */
+interface AfterGenerateEvent {
+    channelId: string;
+    message?: Message;
+    content: string;
+}
+
+/**
+ * What afterGenerate returns: a string replaces the reply, null or an empty
+ * string vetoes it, and undefined keeps it unchanged
+ */
+type AfterGenerateResult = string | null | undefined | void;
+
+/**
+ * Passed to onReplySent once a reply is visible in Discord
+ */
+interface ReplySentEvent {
+    channelId: string;
+    message?: Message;
+    reply: Message;
+}
+
+/**
+ * A plugin hooking into the bot's lifecycle. Every hook is optional; errors
+ * thrown by a hook are logged and don't affect other plugins.
+ */
+interface BotPlugin {
+    name: string;
+    /** Called for every message added to a channel cache */
+    onMessageCached?(channelId: string, message: CachedMessage): void | Promise<void>;
+    /** Called before a reply is generated, in registration order */
+    beforeGenerate?(event: BeforeGenerateEvent): void | Promise<void>;
+    /** Called with the generated reply before it is shown, in registration order */
+    afterGenerate?(event: AfterGenerateEvent): AfterGenerateResult | Promise<AfterGenerateResult>;
+    /** Called after a reply was sent */
+    onReplySent?(event: ReplySentEvent): void | Promise<void>;
+    /** Called once when the bot shuts down */
+    onShutdown?(): void | Promise<void>;
+}
+
+/**
+ * Names of the plugin hooks
+ */
+type PluginHook = Exclude<keyof BotPlugin, "name">;
+
+/**
+ * Creates a plugin from the options in its config entry. Plugin modules
+ * export this as `createPlugin` or as their default export.
+ */
+type PluginFactory = (options: Record<string, unknown>) => BotPlugin | Promise<BotPlugin>;
+
+/**
+ * A plugin entry in the plugins config file
+ */
+interface PluginConfigEntry {
+    /** Module path, relative to the config file */
+    module: string;
+    options?: Record<string, unknown>;
+    enabled?: boolean;
+}
+
+export type {
+    BeforeGenerateEvent,
+    AfterGenerateEvent,
+    AfterGenerateResult,
+    ReplySentEvent,
+    BotPlugin,
+    PluginHook,
+    PluginFactory,
+    PluginConfigEntry
+};
@@ -0,0 +1,182 @@
+import { createLogger } from "../utils/logger";
+import { LLMError, RateLimitError } from "./errors";
+import { CircuitState, ModelHealth } from "./types";
+
+const logger = createLogger("CircuitBreakers");
+
+/**
+ * Cooldown after a rate limit when the provider didn't say how long to wait
+ */
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Cooldown after the provider rejected our credentials
+ */
+const AUTH_COOLDOWN_MS = 10 * 60 * 1000;
+
+/**
+ * Consecutive transient failures before a model's circuit opens
+ */
+const FAILURE_THRESHOLD = 3;
+
+/**
+ * Cooldown after transient failures; doubles each time the circuit reopens
+ */
+const BASE_FAILURE_COOLDOWN_MS = 30 * 1000;
+const MAX_FAILURE_COOLDOWN_MS = 5 * 60 * 1000;
+
+/**
+ * Failure kinds that say something about the model rather than the request
+ */
+const TRANSIENT_KINDS = new Set(["server", "network", "timeout"]);
+
+interface CircuitBreaker {
+    state: CircuitState;
+    consecutiveFailures: number;
+    /** How many times the circuit opened since the model last succeeded */
+    timesOpened: number;
+    openUntil: number;
+    /** The error that opened the circuit, rethrown while the model is skipped */
+    lastError?: LLMError;
+}
+
+/**
+ * Tracks the health of each provider model so exhausted or failing models
+ * are skipped until their cooldown ends, instead of being retried on every request
+ */
+export class CircuitBreakers {
+    private readonly breakers: Map<string, CircuitBreaker> = new Map();
+
+    /**
+     * Whether requests may be sent to a model. An open circuit whose cooldown
+     * has ended moves to half-open and lets a trial request through.
+     */
+    public isAvailable(provider: string, model: string): boolean {
+        const breaker = this.breakers.get(this.key(provider, model));
+        if (!breaker || breaker.state !== "open") {
+            return true;
+        }
+
+        if (Date.now() < breaker.openUntil) {
+            return false;
+        }
+
+        breaker.state = "half_open";
+        logger.info({ provider, model }, "Cooldown ended, trying model again");
+        return true;
+    }
+
+    /**
+     * Gets the error that opened a model's circuit, if it is open
+     */
+    public getOpenError(provider: string, model: string): LLMError | undefined {
+        const breaker = this.breakers.get(this.key(provider, model));
+        return breaker?.state === "open" ? breaker.lastError : undefined;
+    }
+
+    /**
+     * Closes the circuit after a successful request
+     */
+    public recordSuccess(provider: string, model: string): void {
+        const key = this.key(provider, model);
+        const breaker = this.breakers.get(key);
+        if (!breaker) {
+            return;
+        }
+
+        if (breaker.state !== "closed") {
+            logger.info({ provider, model }, "Model recovered, circuit closed");
+        }
+        this.breakers.delete(key);
+    }
+
+    /**
+     * Records a failed request, opening the circuit when the failure means
+     * the model shouldn't be tried again for a while
+     */
+    public recordFailure(provider: string, model: string, error: LLMError): void {
+        const key = this.key(provider, model);
+        const breaker = this.breakers.get(key) ?? {
+            state: "closed",
+            consecutiveFailures: 0,
+            timesOpened: 0,
+            openUntil: 0
+        };
+        this.breakers.set(key, breaker);
+
+        if (error instanceof RateLimitError) {
+            this.open(provider, model, breaker, error, error.retryAfterMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS);
+            return;
+        }
+
+        if (error.kind === "auth") {
+            this.open(provider, model, breaker, error, AUTH_COOLDOWN_MS);
+            return;
+        }
+
+        if (!TRANSIENT_KINDS.has(error.kind)) {
+            // The request was at fault (too long, filtered), not the model
+            return;
+        }
+
+        breaker.consecutiveFailures++;
+        if (breaker.state === "half_open" || breaker.consecutiveFailures >= FAILURE_THRESHOLD) {
+            const cooldown = Math.min(
+                BASE_FAILURE_COOLDOWN_MS * 2 ** breaker.timesOpened,
+                MAX_FAILURE_COOLDOWN_MS
+            );
+            this.open(provider, model, breaker, error, cooldown);
+        }
+    }
+
+    /**
+     * Gets the health of every model that has failed since it last succeeded
+     */
+    public getStatus(): ModelHealth[] {
+        return Array.from(this.breakers.entries()).map(([key, breaker]) => {
+            const [provider, model] = this.splitKey(key);
+            const cooledDown = breaker.state === "open" && Date.now() >= breaker.openUntil;
+            return {
+                provider,
+                model,
+                state: cooledDown ? "half_open" : breaker.state,
+                consecutiveFailures: breaker.consecutiveFailures,
+                openUntil: breaker.state === "open" && !cooledDown ? new Date(breaker.openUntil) : undefined,
+                lastFailure: breaker.lastError?.kind
+            };
+        });
+    }
+
+    /**
+     * Opens a model's circuit for the given cooldown
+     */
+    private open(
+        provider: string,
+        model: string,
+        breaker: CircuitBreaker,
+        error: LLMError,
+        cooldownMs: number
+    ): void {
+        breaker.state = "open";
+        breaker.timesOpened++;
+        breaker.openUntil = Date.now() + cooldownMs;
+        breaker.lastError = error;
+
+        logger.warn({
+            provider,
+            model,
+            reason: error.kind,
+            cooldownMs,
+            openUntil: new Date(breaker.openUntil).toISOString()
+        }, "Circuit opened, skipping model until cooldown ends");
+    }
+
+    private key(provider: string, model: string): string {
+        return `${provider}\u0000${model}`;
+    }
+
+    private splitKey(key: string): [string, string] {
+        const separator = key.indexOf("\u0000");
+        return [key.slice(0, separator), key.slice(separator + 1)];
+    }
+}
@@ -0,0 +1,138 @@
+import Groq from "groq-sdk";
+import { ChatCompletionMessageParam } from "groq-sdk/resources/chat/completions";
+import {
+    LLMProvider,
+    ProviderModels,
+    ChatCompletionRequest,
+    ChatCompletionResult,
+    ChatCompletionChunk
+} from "./types";
+import {
+    toOpenAIMessages,
+    toOpenAITools,
+    fromOpenAIToolCalls,
+    ToolCallAccumulator
+} from "./openaiFormat";
+import { toLLMError } from "./errors";
+
+/**
+ * Default Groq model chains
+ */
+const DEFAULT_GROQ_MODELS: ProviderModels = {
+    chat: {
+        primary: "llama-3.2-90b-text-preview",
+        fallback: "llama-3.1-70b-versatile",
+        instantFallback: "llama-3.1-8b-instant",
+        maxRetries: 3
+    },
+    vision: {
+        primary: "llama-3.2-11b-vision-preview",
+        fallback: "llama-3.2-11b-vision-preview",
+        instantFallback: "llama-3.2-11b-vision-preview",
+        maxRetries: 2
+    },
+    contextWindows: {
+        "llama-3.2-90b-text-preview": 8192,
+        "llama-3.1-70b-versatile": 131072,
+        "llama-3.1-8b-instant": 131072,
+        "llama-3.2-11b-vision-preview": 8192
+    },
+    // Groq's Llama 3.2 vision models accept one image per request, so images
+    // are analyzed one at a time; providers with larger limits compare them
+    imagesPerRequest: {
+        "llama-3.2-11b-vision-preview": 1
+    }
+};
+
+/**
+ * Serves completions through the Groq SDK
+ */
+export class GroqProvider implements LLMProvider {
+    public readonly name = "groq";
+    public readonly models: ProviderModels;
+    private groq: Groq;
+
+    constructor(apiKey: string, models: ProviderModels = DEFAULT_GROQ_MODELS) {
+        // Retries are left to GroqHandler, so they respect circuit breakers and cancellation
+        this.groq = new Groq({ apiKey, maxRetries: 0 });
+        this.models = models;
+    }
+
+    /**
+     * Creates a chat or vision completion
+     */
+    public async createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+        const completion = await this.groq.chat.completions.create({
+            ...this.toRequestBody(request),
+            stream: false
+        }, { signal: request.signal }).catch((error: unknown) => {
+            throw toLLMError(error, this.name);
+        });
+        const message = completion.choices[0]?.message;
+
+        return {
+            content: message?.content || "",
+            model: completion.model,
+            toolCalls: fromOpenAIToolCalls(message?.tool_calls),
+            usage: completion.usage && {
+                promptTokens: completion.usage.prompt_tokens,
+                completionTokens: completion.usage.completion_tokens,
+                totalTokens: completion.usage.total_tokens
+            }
+        };
+    }
+
+    /**
+     * Streams a chat completion as content deltas
+     */
+    public async *streamChatCompletion(request: ChatCompletionRequest): AsyncIterable<ChatCompletionChunk> {
+        const toolCalls = new ToolCallAccumulator();
+
+        try {
+            const stream = await this.groq.chat.completions.create({
+                ...this.toRequestBody(request),
+                stream: true
+            }, { signal: request.signal });
+
+            for await (const chunk of stream) {
+                const delta = chunk.choices[0]?.delta;
+                toolCalls.add(delta?.tool_calls);
+                if (delta?.content) {
+                    yield { content: delta.content };
+                }
+                const usage = chunk.x_groq?.usage;
+                if (usage) {
+                    yield {
+                        usage: {
+                            promptTokens: usage.prompt_tokens,
+                            completionTokens: usage.completion_tokens,
+                            totalTokens: usage.total_tokens
+                        }
+                    };
+                }
+            }
+        } catch (error) {
+            throw toLLMError(error, this.name);
+        }
+
+        const calls = toolCalls.getToolCalls();
+        if (calls.length > 0) {
+            yield { toolCalls: calls };
+        }
+    }
+
+    /**
+     * Builds the SDK request body shared by streaming and non-streaming calls
+     */
+    private toRequestBody(request: ChatCompletionRequest) {
+        return {
+            messages: toOpenAIMessages(request.messages) as ChatCompletionMessageParam[],
+            model: request.model,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stop: request.stop,
+            tools: toOpenAITools(request.tools),
+            tool_choice: request.tools?.length ? request.toolChoice : undefined
+        };
+    }
+}
@@ -0,0 +1,147 @@
+import {
+    LLMProvider,
+    ProviderModels,
+    ChatCompletionRequest,
+    ChatCompletionResult,
+    ChatCompletionChunk,
+    ToolCall
+} from "./types";
+import { abortError } from "./errors";
+
+/**
+ * A scripted reply with text, tool calls or both. A streamed reply with an
+ * error fails after its text; otherwise the error is thrown instead.
+ */
+interface MockReply {
+    content: string;
+    toolCalls?: ToolCall[];
+    error?: Error;
+}
+
+/**
+ * A scripted step: fixed text, tool calls to request, an error to throw,
+ * a full reply, or a function of the request
+ */
+type MockStep = string | ToolCall[] | Error | MockReply | ((request: ChatCompletionRequest) => string);
+
+/**
+ * Default model chains; names are only used for logging
+ */
+const DEFAULT_MOCK_MODELS: ProviderModels = {
+    chat: {
+        primary: "mock-chat",
+        fallback: "mock-chat",
+        instantFallback: "mock-chat",
+        maxRetries: 0
+    },
+    vision: {
+        primary: "mock-vision",
+        fallback: "mock-vision",
+        instantFallback: "mock-vision",
+        maxRetries: 0
+    },
+    imagesPerRequest: {
+        "mock-vision": 4
+    }
+};
+
+/**
+ * Deterministic provider that replays a script, for tests and offline runs.
+ * Once the script is exhausted it echoes the last text in the request.
+ */
+export class MockProvider implements LLMProvider {
+    public readonly name: string;
+    public readonly models: ProviderModels;
+    private readonly script: MockStep[];
+    private readonly requests: ChatCompletionRequest[] = [];
+
+    constructor(script: MockStep[] = [], name = "mock", models: ProviderModels = DEFAULT_MOCK_MODELS) {
+        this.script = [...script];
+        this.name = name;
+        this.models = models;
+    }
+
+    /**
+     * Returns the next scripted response
+     */
+    public async createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+        const reply = this.nextReply(request);
+        if (reply.error) {
+            throw reply.error;
+        }
+
+        return {
+            content: reply.content,
+            model: request.model,
+            toolCalls: reply.toolCalls,
+            usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+        };
+    }
+
+    /**
+     * Streams the next scripted response word by word
+     */
+    public async *streamChatCompletion(request: ChatCompletionRequest): AsyncIterable<ChatCompletionChunk> {
+        const { content, toolCalls, error } = this.nextReply(request);
+        for (const piece of content.split(/(?<=\s)/).filter(Boolean)) {
+            if (request.signal?.aborted) {
+                throw abortError(request.signal, this.name);
+            }
+            yield { content: piece };
+        }
+        if (error) {
+            throw error;
+        }
+        if (toolCalls) {
+            yield { toolCalls };
+        }
+        yield { usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 } };
+    }
+
+    /**
+     * Records a request and takes the next step of the script as a reply
+     */
+    private nextReply(request: ChatCompletionRequest): MockReply {
+        this.requests.push(request);
+        if (request.signal?.aborted) {
+            throw abortError(request.signal, this.name);
+        }
+        const step = this.script.shift();
+
+        if (step instanceof Error) {
+            return { content: "", error: step };
+        }
+        if (Array.isArray(step)) {
+            return { content: "", toolCalls: step };
+        }
+        if (typeof step === "function") {
+            return { content: step(request) };
+        }
+        return typeof step === "object" ? step : { content: step ?? this.echo(request) };
+    }
+
+    /**
+     * Gets every request received so far, in order
+     */
+    public getRequests(): ChatCompletionRequest[] {
+        return [...this.requests];
+    }
+
+    /**
+     * Builds a predictable reply from the last text part of the request
+     */
+    private echo(request: ChatCompletionRequest): string {
+        const last = request.messages[request.messages.length - 1];
+        if (!last) return "";
+
+        const text = typeof last.content === "string"
+            ? last.content
+            : last.content
+                .map(part => part.type === "text" ? part.text : "")
+                .join(" ");
+
+        return `[${this.name}] ${text.trim().split("\n").pop() ?? ""}`;
+    }
+}
+
+export type { MockStep, MockReply };
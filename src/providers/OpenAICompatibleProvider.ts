@@ -0,0 +1,200 @@
+import {
+    LLMProvider,
+    ProviderModels,
+    ChatCompletionRequest,
+    ChatCompletionResult,
+    ChatCompletionChunk
+} from "./types";
+import { ContentFilterError, LLMError, errorFromResponse, toLLMError } from "./errors";
+import {
+    toOpenAIMessages,
+    toOpenAITools,
+    fromOpenAIToolCalls,
+    ToolCallAccumulator,
+    OpenAIToolCall,
+    OpenAIToolCallDelta
+} from "./openaiFormat";
+
+/**
+ * Configuration for an OpenAI-compatible endpoint
+ */
+interface OpenAICompatibleOptions {
+    /** Name used in logs and configuration */
+    name: string;
+    /** Base URL including the version path, e.g. http://localhost:11434/v1 */
+    baseURL: string;
+    /** Optional bearer token; local servers usually don't need one */
+    apiKey?: string;
+    models: ProviderModels;
+}
+
+/**
+ * Shape of the response body returned by /chat/completions
+ */
+interface OpenAIChatCompletionBody {
+    model: string;
+    choices: Array<{
+        message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+        finish_reason?: string | null;
+    }>;
+    usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+    };
+}
+
+/**
+ * Shape of a single streamed chunk returned by /chat/completions
+ */
+interface OpenAIChatCompletionChunk {
+    choices: Array<{
+        delta?: { content?: string | null; tool_calls?: OpenAIToolCallDelta[] };
+        finish_reason?: string | null;
+    }>;
+    /** Only present on the final chunk, when include_usage was requested */
+    usage?: OpenAIChatCompletionBody["usage"] | null;
+}
+
+/**
+ * Serves completions from any server implementing the OpenAI chat completions API
+ * (vLLM, llama.cpp, LM Studio, Ollama's /v1 endpoint, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    public readonly name: string;
+    public readonly models: ProviderModels;
+    private readonly baseURL: string;
+    private readonly apiKey?: string;
+
+    constructor(options: OpenAICompatibleOptions) {
+        this.name = options.name;
+        this.models = options.models;
+        this.baseURL = options.baseURL.replace(/\/+$/, "");
+        this.apiKey = options.apiKey;
+    }
+
+    /**
+     * Creates a chat or vision completion
+     */
+    public async createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+        const response = await this.post(request, false);
+        const completion = await response.json() as OpenAIChatCompletionBody;
+        const message = completion.choices[0]?.message;
+
+        if (completion.choices[0]?.finish_reason === "content_filter") {
+            throw new ContentFilterError(`${this.name} filtered the completion`, this.name);
+        }
+
+        return {
+            content: message?.content || "",
+            model: completion.model,
+            toolCalls: fromOpenAIToolCalls(message?.tool_calls),
+            usage: completion.usage && {
+                promptTokens: completion.usage.prompt_tokens,
+                completionTokens: completion.usage.completion_tokens,
+                totalTokens: completion.usage.total_tokens
+            }
+        };
+    }
+
+    /**
+     * Streams a chat completion as content deltas parsed from server-sent events
+     */
+    public async *streamChatCompletion(request: ChatCompletionRequest): AsyncIterable<ChatCompletionChunk> {
+        const response = await this.post(request, true);
+        if (!response.body) {
+            throw new LLMError(`${this.name} returned an empty stream`, this.name);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        const toolCalls = new ToolCallAccumulator();
+        let buffer = "";
+
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split("\n");
+                // Keep the last, possibly incomplete, line for the next read
+                buffer = lines.pop() ?? "";
+
+                for (const line of lines) {
+                    const data = line.trim();
+                    if (!data.startsWith("data:")) continue;
+
+                    const payload = data.slice("data:".length).trim();
+                    if (payload === "[DONE]") break;
+
+                    const chunk = JSON.parse(payload) as OpenAIChatCompletionChunk;
+                    if (chunk.choices[0]?.finish_reason === "content_filter") {
+                        throw new ContentFilterError(`${this.name} filtered the completion`, this.name);
+                    }
+
+                    const delta = chunk.choices[0]?.delta;
+                    toolCalls.add(delta?.tool_calls);
+                    if (delta?.content) {
+                        yield { content: delta.content };
+                    }
+                    if (chunk.usage) {
+                        yield {
+                            usage: {
+                                promptTokens: chunk.usage.prompt_tokens,
+                                completionTokens: chunk.usage.completion_tokens,
+                                totalTokens: chunk.usage.total_tokens
+                            }
+                        };
+                    }
+                }
+            }
+        } catch (error) {
+            throw toLLMError(error, this.name);
+        } finally {
+            reader.releaseLock();
+        }
+
+        const calls = toolCalls.getToolCalls();
+        if (calls.length > 0) {
+            yield { toolCalls: calls };
+        }
+    }
+
+    /**
+     * Sends a request to /chat/completions and throws a typed error on failure
+     */
+    private async post(request: ChatCompletionRequest, stream: boolean): Promise<Response> {
+        const response = await fetch(`${this.baseURL}/chat/completions`, {
+            method: "POST",
+            signal: request.signal,
+            headers: {
+                "Content-Type": "application/json",
+                ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+            },
+            body: JSON.stringify({
+                model: request.model,
+                messages: toOpenAIMessages(request.messages),
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+                stop: request.stop,
+                tools: toOpenAITools(request.tools),
+                tool_choice: request.tools?.length ? request.toolChoice : undefined,
+                stream,
+                // Servers that support it send usage in a final chunk
+                stream_options: stream ? { include_usage: true } : undefined
+            })
+        }).catch((error: unknown) => {
+            throw toLLMError(error, this.name);
+        });
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => "");
+            throw errorFromResponse(this.name, response.status, body, response.headers);
+        }
+
+        return response;
+    }
+}
+
+export type { OpenAICompatibleOptions };
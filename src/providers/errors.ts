@@ -0,0 +1,289 @@
+/**
+ * Categories of LLM request failures, used to pick fallbacks and user-facing replies
+ */
+type LLMErrorKind =
+    | "rate_limit"
+    | "timeout"
+    | "context_length"
+    | "content_filter"
+    | "auth"
+    | "network"
+    | "server"
+    | "cancelled"
+    | "quota"
+    | "unknown";
+
+/**
+ * Base class for failures of an LLM request
+ */
+class LLMError extends Error {
+    public readonly kind: LLMErrorKind = "unknown";
+
+    constructor(
+        message: string,
+        public readonly provider?: string,
+        public readonly status?: number,
+        public readonly cause?: unknown
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * The provider rejected the request for exceeding a rate limit
+ */
+class RateLimitError extends LLMError {
+    public readonly kind = "rate_limit";
+
+    constructor(
+        message: string,
+        provider?: string,
+        /** How long the provider asked us to wait, when it said */
+        public readonly retryAfterMs?: number,
+        cause?: unknown
+    ) {
+        super(message, provider, 429, cause);
+    }
+}
+
+/**
+ * The request took too long
+ */
+class TimeoutError extends LLMError {
+    public readonly kind = "timeout";
+}
+
+/**
+ * The prompt doesn't fit the model's context window
+ */
+class ContextLengthError extends LLMError {
+    public readonly kind = "context_length";
+}
+
+/**
+ * The provider refused the prompt or the completion on content grounds
+ */
+class ContentFilterError extends LLMError {
+    public readonly kind = "content_filter";
+}
+
+/**
+ * The API key is missing, invalid or lacks access
+ */
+class AuthError extends LLMError {
+    public readonly kind = "auth";
+}
+
+/**
+ * The provider couldn't be reached
+ */
+class NetworkError extends LLMError {
+    public readonly kind = "network";
+}
+
+/**
+ * The provider failed with a 5xx response
+ */
+class ServerError extends LLMError {
+    public readonly kind = "server";
+}
+
+/**
+ * The request was aborted on purpose: shut down, superseded or out of time.
+ * The abort reason, when it is an LLMError, is thrown instead.
+ */
+class CancelledError extends LLMError {
+    public readonly kind = "cancelled";
+}
+
+/**
+ * The bot's own usage budget is spent, so the request was never sent
+ */
+class QuotaExceededError extends LLMError {
+    public readonly kind = "quota";
+}
+
+/**
+ * Gets the error to throw for an aborted signal: its reason when that is
+ * already typed (e.g. a TimeoutError), a CancelledError otherwise
+ */
+function abortError(signal: AbortSignal, provider?: string): LLMError {
+    return signal.reason instanceof LLMError
+        ? signal.reason
+        : new CancelledError("Request was cancelled", provider, undefined, signal.reason);
+}
+
+const CONTEXT_LENGTH_PATTERN = /context.length|context window|maximum context|too many tokens|reduce the length/i;
+const CONTENT_FILTER_PATTERN = /content.filter|content policy|flagged|safety/i;
+const NETWORK_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EPIPE", "ETIMEDOUT"]);
+
+/**
+ * Response headers as either a fetch Headers object or the plain record the Groq SDK exposes
+ */
+type HeaderSource = { get(name: string): string | null } | Record<string, string | null | undefined>;
+
+/**
+ * Reads a header from either header representation
+ */
+function readHeader(headers: HeaderSource | undefined, name: string): string | null | undefined {
+    if (!headers) {
+        return undefined;
+    }
+    return typeof headers.get === "function"
+        ? (headers as { get(name: string): string | null }).get(name)
+        : (headers as Record<string, string | null | undefined>)[name];
+}
+
+/**
+ * Parses a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Parses a rate limit reset duration such as "7.66s", "2m59.56s" or "20ms" into milliseconds
+ */
+function parseResetDuration(value: string | null | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+    const parts = value.match(/\d+(?:\.\d+)?(?:ms|h|m|s)/g);
+    if (!parts || parts.join("") !== value) {
+        return undefined;
+    }
+
+    return parts.reduce((total, part) => {
+        const [, amount, unit] = part.match(/^(\d+(?:\.\d+)?)(ms|h|m|s)$/)!;
+        return total + Number(amount) * units[unit];
+    }, 0);
+}
+
+/**
+ * Works out how long to wait after a rate limit, preferring Retry-After and
+ * falling back to the reset time of whichever request or token budget ran out
+ */
+function rateLimitWaitMs(headers: HeaderSource | undefined): number | undefined {
+    const retryAfter = parseRetryAfter(readHeader(headers, "retry-after"));
+    if (retryAfter !== undefined) {
+        return retryAfter;
+    }
+
+    const resets = ["requests", "tokens"]
+        .filter(bucket => readHeader(headers, `x-ratelimit-remaining-${bucket}`) === "0")
+        .map(bucket => parseResetDuration(readHeader(headers, `x-ratelimit-reset-${bucket}`)))
+        .filter((wait): wait is number => wait !== undefined);
+
+    return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/**
+ * Creates the typed error for a failed HTTP response
+ */
+function errorFromResponse(
+    provider: string,
+    status: number,
+    body: string,
+    headers?: HeaderSource,
+    cause?: unknown
+): LLMError {
+    const message = `${provider} request failed with status ${status}: ${body}`;
+
+    if (status === 429) {
+        return new RateLimitError(message, provider, rateLimitWaitMs(headers), cause);
+    }
+    if (status === 401 || status === 403) {
+        return new AuthError(message, provider, status, cause);
+    }
+    if (status === 408 || status === 504) {
+        return new TimeoutError(message, provider, status, cause);
+    }
+    if (status === 413 || CONTEXT_LENGTH_PATTERN.test(body)) {
+        return new ContextLengthError(message, provider, status, cause);
+    }
+    if (CONTENT_FILTER_PATTERN.test(body)) {
+        return new ContentFilterError(message, provider, status, cause);
+    }
+    if (status >= 500) {
+        return new ServerError(message, provider, status, cause);
+    }
+    return new LLMError(message, provider, status, cause);
+}
+
+/**
+ * Converts anything a provider SDK or fetch throws into a typed LLMError
+ */
+function toLLMError(error: unknown, provider: string): LLMError {
+    if (error instanceof LLMError) {
+        return error;
+    }
+
+    const raw = error as {
+        name?: string;
+        message?: string;
+        status?: number;
+        code?: string;
+        cause?: { code?: string };
+        headers?: HeaderSource;
+    } | null;
+    const message = raw?.message ?? String(error);
+    // SDK error classes don't set a name, so check the constructor as well
+    const types = [raw?.name, (raw as object | null)?.constructor?.name];
+
+    if (typeof raw?.status === "number") {
+        return errorFromResponse(provider, raw.status, message, raw.headers, error);
+    }
+    if (types.includes("AbortError") || types.includes("APIUserAbortError")) {
+        return new CancelledError(message, provider, undefined, error);
+    }
+    if (types.includes("APIConnectionTimeoutError") || /timed? ?out/i.test(message)) {
+        return new TimeoutError(message, provider, undefined, error);
+    }
+    if (
+        types.includes("APIConnectionError")
+        || NETWORK_CODES.has(raw?.code ?? "")
+        || NETWORK_CODES.has(raw?.cause?.code ?? "")
+        || /fetch failed|network|socket hang up/i.test(message)
+    ) {
+        return new NetworkError(message, provider, undefined, error);
+    }
+    if (/rate limit reached/i.test(message)) {
+        return new RateLimitError(message, provider, undefined, error);
+    }
+    return new LLMError(message, provider, undefined, error);
+}
+
+export type { LLMErrorKind };
+export {
+    LLMError,
+    RateLimitError,
+    TimeoutError,
+    ContextLengthError,
+    ContentFilterError,
+    AuthError,
+    NetworkError,
+    ServerError,
+    CancelledError,
+    QuotaExceededError,
+    abortError,
+    errorFromResponse,
+    toLLMError
+};
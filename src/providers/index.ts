@@ -0,0 +1,89 @@
+import { createLogger } from "../utils/logger";
+import { GroqProvider } from "./GroqProvider";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider";
+import { MockProvider } from "./MockProvider";
+import { CircuitBreakers } from "./CircuitBreakers";
+import { LLMProvider, ModelConfig, ProviderModels } from "./types";
+
+const logger = createLogger("Providers");
+
+/**
+ * Builds a model chain that uses the same model at every fallback level
+ */
+function singleModelChain(model: string, maxRetries = 2): ModelConfig {
+    return { primary: model, fallback: model, instantFallback: model, maxRetries };
+}
+
+/**
+ * Builds model chains for providers configured with one chat and one vision model
+ */
+function modelsFromEnv(
+    prefix: string,
+    defaultChat: string,
+    defaultVision: string,
+    defaultContextWindow: number,
+    defaultImagesPerRequest: number
+): ProviderModels {
+    const chat = process.env[`${prefix}_CHAT_MODEL`] || defaultChat;
+    const vision = process.env[`${prefix}_VISION_MODEL`] || defaultVision;
+    const contextWindow = Number(process.env[`${prefix}_CONTEXT_WINDOW`]) || defaultContextWindow;
+    const imagesPerRequest = Number(process.env[`${prefix}_VISION_MAX_IMAGES`]) || defaultImagesPerRequest;
+
+    return {
+        chat: singleModelChain(chat),
+        vision: singleModelChain(vision),
+        contextWindows: { [chat]: contextWindow, [vision]: contextWindow },
+        imagesPerRequest: { [vision]: imagesPerRequest }
+    };
+}
+
+/**
+ * Creates a single provider by name using environment configuration
+ */
+function createProvider(name: string): LLMProvider {
+    switch (name) {
+        case "groq":
+            return new GroqProvider(process.env.GROQ_API_KEY || "");
+        case "openai":
+            if (!process.env.OPENAI_BASE_URL) {
+                throw new Error("OPENAI_BASE_URL must be set to use the openai provider");
+            }
+            return new OpenAICompatibleProvider({
+                name,
+                baseURL: process.env.OPENAI_BASE_URL,
+                apiKey: process.env.OPENAI_API_KEY,
+                models: modelsFromEnv("OPENAI", "gpt-4o-mini", "gpt-4o-mini", 128000, 10)
+            });
+        case "ollama":
+            return new OpenAICompatibleProvider({
+                name,
+                baseURL: process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+                // Ollama serves a 2048-token context unless num_ctx is raised,
+                // and llama3.2-vision takes one image per request
+                models: modelsFromEnv("OLLAMA", "llama3.1", "llama3.2-vision", 2048, 1)
+            });
+        case "mock":
+            return new MockProvider();
+        default:
+            throw new Error(`Unknown LLM provider: ${name}`);
+    }
+}
+
+/**
+ * Creates the ordered provider list from LLM_PROVIDERS (comma-separated, default "groq").
+ * Later providers are used as fallbacks when earlier ones are exhausted.
+ */
+export function createProvidersFromEnv(): LLMProvider[] {
+    const names = (process.env.LLM_PROVIDERS || "groq")
+        .split(",")
+        .map(name => name.trim().toLowerCase())
+        .filter(Boolean);
+
+    const providers = names.map(createProvider);
+    logger.info({ providers: names }, "Configured LLM providers");
+    return providers;
+}
+
+export { GroqProvider, OpenAICompatibleProvider, MockProvider, CircuitBreakers };
+export * from "./types";
+export * from "./errors";
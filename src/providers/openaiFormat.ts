@@ -0,0 +1,107 @@
+import { ChatMessage, ToolCall, ToolDefinition } from "./types";
+
+/**
+ * Chat message in the OpenAI wire format, shared by Groq and OpenAI-compatible servers
+ */
+interface OpenAIMessage {
+    role: ChatMessage["role"];
+    content: ChatMessage["content"];
+    tool_calls?: OpenAIToolCall[];
+    tool_call_id?: string;
+}
+
+/**
+ * Tool call in the OpenAI wire format
+ */
+interface OpenAIToolCall {
+    id: string;
+    type: "function";
+    function: { name: string; arguments: string };
+}
+
+/**
+ * Partial tool call as it arrives in a streamed chunk
+ */
+interface OpenAIToolCallDelta {
+    index: number;
+    id?: string;
+    function?: { name?: string; arguments?: string };
+}
+
+/**
+ * Converts provider-agnostic messages to the OpenAI wire format
+ */
+export function toOpenAIMessages(messages: ChatMessage[]): OpenAIMessage[] {
+    return messages.map(message => ({
+        role: message.role,
+        content: message.content,
+        ...(message.toolCalls?.length && {
+            tool_calls: message.toolCalls.map(call => ({
+                id: call.id,
+                type: "function" as const,
+                function: { name: call.name, arguments: call.arguments }
+            }))
+        }),
+        ...(message.toolCallId && { tool_call_id: message.toolCallId })
+    }));
+}
+
+/**
+ * Converts tool definitions to the OpenAI wire format
+ */
+export function toOpenAITools(tools?: ToolDefinition[]) {
+    if (!tools?.length) return undefined;
+
+    return tools.map(tool => ({
+        type: "function" as const,
+        function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters as Record<string, unknown>
+        }
+    }));
+}
+
+/**
+ * Converts tool calls from the OpenAI wire format
+ */
+export function fromOpenAIToolCalls(calls?: OpenAIToolCall[] | null): ToolCall[] | undefined {
+    if (!calls?.length) return undefined;
+
+    return calls.map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments
+    }));
+}
+
+/**
+ * Assembles streamed tool call deltas into complete tool calls
+ */
+export class ToolCallAccumulator {
+    private calls: Map<number, ToolCall> = new Map();
+
+    /**
+     * Merges the tool call deltas from one streamed chunk
+     */
+    public add(deltas?: OpenAIToolCallDelta[] | null): void {
+        for (const delta of deltas ?? []) {
+            const call = this.calls.get(delta.index) ?? { id: "", name: "", arguments: "" };
+            call.id = delta.id ?? call.id;
+            call.name += delta.function?.name ?? "";
+            call.arguments += delta.function?.arguments ?? "";
+            this.calls.set(delta.index, call);
+        }
+    }
+
+    /**
+     * Gets the assembled tool calls in index order
+     */
+    public getToolCalls(): ToolCall[] {
+        return Array.from(this.calls.entries())
+            .sort(([a], [b]) => a - b)
+            .map(([, call]) => call);
+    }
+}
+
+export type { OpenAIMessage, OpenAIToolCall, OpenAIToolCallDelta };
@@ -0,0 +1,163 @@
+import { LLMErrorKind } from "./errors";
+
+/**
+ * Configuration for model fallbacks and retry attempts
+ */
+interface ModelConfig {
+    primary: string;
+    fallback: string;
+    instantFallback: string;
+    /** Extra attempts on the same model after a transient (server, network, timeout) failure */
+    maxRetries: number;
+}
+
+/**
+ * Model chains a provider exposes for each kind of completion
+ */
+interface ProviderModels {
+    chat: ModelConfig;
+    vision: ModelConfig;
+    /** Context window in tokens per model name; unknown models use a conservative default */
+    contextWindows?: Record<string, number>;
+    /** Images a single vision request may carry per model name; unknown models take one */
+    imagesPerRequest?: Record<string, number>;
+}
+
+/**
+ * Kind of completion being requested, used to pick a model chain
+ */
+type CompletionKind = "chat" | "vision";
+
+/**
+ * A single part of a multi-part message (text or image)
+ */
+type ChatContentPart =
+    | { type: "text"; text: string }
+    | { type: "image_url"; image_url: { url: string } };
+
+/**
+ * A tool the model may call, described by a JSON schema for its arguments
+ */
+interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: object;
+}
+
+/**
+ * A tool call requested by the model
+ */
+interface ToolCall {
+    id: string;
+    name: string;
+    /** Raw JSON arguments as produced by the model */
+    arguments: string;
+}
+
+/**
+ * A provider-agnostic chat message
+ */
+interface ChatMessage {
+    role: "system" | "user" | "assistant" | "tool";
+    content: string | ChatContentPart[];
+    /** Tool calls made by an assistant message */
+    toolCalls?: ToolCall[];
+    /** The call a tool message answers */
+    toolCallId?: string;
+}
+
+/**
+ * A provider-agnostic chat or vision completion request
+ */
+interface ChatCompletionRequest {
+    model: string;
+    messages: ChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    stop?: string[];
+    tools?: ToolDefinition[];
+    /** "none" forbids further tool calls while still accepting tool messages */
+    toolChoice?: "auto" | "none";
+    /** Aborts the request, including a stream in progress */
+    signal?: AbortSignal;
+}
+
+/**
+ * Token usage reported by a provider for a single completion
+ */
+interface CompletionUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+/**
+ * A provider-agnostic completion result
+ */
+interface ChatCompletionResult {
+    content: string;
+    model: string;
+    toolCalls?: ToolCall[];
+    usage?: CompletionUsage;
+}
+
+/**
+ * A piece of a streamed completion. Tool calls arrive fully assembled.
+ */
+interface ChatCompletionChunk {
+    content?: string;
+    toolCalls?: ToolCall[];
+    /** Usage for the whole completion, sent once near the end by providers that report it */
+    usage?: CompletionUsage;
+}
+
+/**
+ * A backend capable of serving chat and vision completions
+ */
+interface LLMProvider {
+    /** Name used in logs and configuration */
+    readonly name: string;
+    /** Model chains to try, in order, for each completion kind */
+    readonly models: ProviderModels;
+    /** Fails with an LLMError subclass describing what went wrong */
+    createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+    /** Streams the completion as content deltas, in order */
+    streamChatCompletion(request: ChatCompletionRequest): AsyncIterable<ChatCompletionChunk>;
+}
+
+/**
+ * State of a model's circuit breaker: closed serves requests, open skips the
+ * model until its cooldown ends, half_open lets a trial request through
+ */
+type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Snapshot of a model's health, for logging and status output
+ */
+interface ModelHealth {
+    provider: string;
+    model: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    /** When an open circuit lets requests through again */
+    openUntil?: Date;
+    /** Kind of the failure that last opened the circuit */
+    lastFailure?: LLMErrorKind;
+}
+
+export type {
+    ModelConfig,
+    ProviderModels,
+    CompletionKind,
+    ChatContentPart,
+    ToolDefinition,
+    ToolCall,
+    ChatMessage,
+    ChatCompletionRequest,
+    CompletionUsage,
+    ChatCompletionResult,
+    ChatCompletionChunk,
+    LLMProvider,
+    CircuitState,
+    ModelHealth
+};
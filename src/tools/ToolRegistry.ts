@@ -0,0 +1,119 @@
+import { ToolCall, ToolDefinition } from "../providers";
+import { Tool, ToolContext, ToolArgumentError } from "./types";
+import { parseToolArguments } from "./validation";
+import { createLogger } from "../utils/logger";
+import { raceAbort } from "../utils/abort";
+
+const logger = createLogger("ToolRegistry");
+
+/**
+ * Configuration options for the tool registry
+ */
+interface ToolRegistryOptions {
+    /** Default time a single tool call may take before it is abandoned */
+    defaultTimeoutMs: number;
+}
+
+/**
+ * Holds the tools advertised to the chat model and executes its tool calls
+ */
+export class ToolRegistry {
+    /** Each tool's arguments are checked against its own schema before it runs */
+    private tools: Map<string, Tool<unknown>> = new Map();
+    private readonly options: ToolRegistryOptions;
+
+    constructor(options: ToolRegistryOptions = { defaultTimeoutMs: 5000 }) {
+        this.options = options;
+    }
+
+    /**
+     * Registers a tool, replacing any tool with the same name
+     */
+    public register<TArgs>(tool: Tool<TArgs>): void {
+        this.tools.set(tool.name, tool);
+        logger.debug({ tool: tool.name }, "Registered tool");
+    }
+
+    /**
+     * Gets the definitions advertised to the model
+     */
+    public getDefinitions(): ToolDefinition[] {
+        return Array.from(this.tools.values()).map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters
+        }));
+    }
+
+    /**
+     * Checks whether any tools are registered
+     */
+    public hasTools(): boolean {
+        return this.tools.size > 0;
+    }
+
+    /**
+     * Executes a tool call from the model. Failures are returned as text
+     * so the model can see what went wrong and carry on.
+     * @throws The abort reason once the context's signal aborts
+     */
+    public async execute(call: ToolCall, context: ToolContext): Promise<string> {
+        const startTime = Date.now();
+        const tool = this.tools.get(call.name);
+
+        if (!tool) {
+            logger.warn({ tool: call.name }, "Model called an unknown tool");
+            return `Error: unknown tool "${call.name}"`;
+        }
+
+        try {
+            const args = parseToolArguments<unknown>(call.arguments, tool.parameters);
+            const result = await this.withTimeout(
+                tool.execute(args, context),
+                tool.timeoutMs ?? this.options.defaultTimeoutMs,
+                tool.name,
+                context.signal
+            );
+
+            logger.debug({
+                tool: tool.name,
+                args,
+                duration: Date.now() - startTime
+            }, "Tool call completed");
+            return result;
+        } catch (error) {
+            if (context.signal?.aborted) {
+                throw error;
+            }
+            const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+            if (error instanceof ToolArgumentError) {
+                logger.warn({ tool: tool.name, arguments: call.arguments, errorMessage }, "Invalid tool arguments");
+            } else {
+                logger.error({ error, tool: tool.name, duration: Date.now() - startTime }, "Tool call failed");
+            }
+
+            return `Error: ${errorMessage}`;
+        }
+    }
+
+    /**
+     * Rejects if the operation doesn't settle within the timeout, or once the signal aborts
+     */
+    private async withTimeout<T>(operation: Promise<T>, timeoutMs: number, toolName: string, signal?: AbortSignal): Promise<T> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                reject(new Error(`${toolName} timed out after ${timeoutMs}ms`));
+            }, timeoutMs);
+        });
+
+        try {
+            return await raceAbort(Promise.race([operation, timeout]), signal);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
+
+export type { ToolRegistryOptions };
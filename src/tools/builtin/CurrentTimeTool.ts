@@ -0,0 +1,33 @@
+import { Tool, ToolParameters, ToolArgumentError } from "../types";
+
+interface CurrentTimeArgs {
+    timeZone?: string;
+}
+
+/**
+ * Reports the current date and time
+ */
+export class CurrentTimeTool implements Tool<CurrentTimeArgs> {
+    public readonly name = "current_time";
+    public readonly description = "Get the current date and time, optionally in a specific IANA time zone such as America/New_York.";
+    public readonly parameters: ToolParameters = {
+        type: "object",
+        properties: {
+            timeZone: { type: "string", description: "IANA time zone name (default UTC)" }
+        }
+    };
+
+    public async execute(args: CurrentTimeArgs): Promise<string> {
+        const timeZone = args.timeZone ?? "UTC";
+        try {
+            const formatted = new Intl.DateTimeFormat("en-US", {
+                dateStyle: "full",
+                timeStyle: "long",
+                timeZone
+            }).format(new Date());
+            return `${formatted} (${timeZone})`;
+        } catch {
+            throw new ToolArgumentError(`Unknown time zone "${timeZone}"`);
+        }
+    }
+}
@@ -0,0 +1,31 @@
+import { randomInt } from "crypto";
+import { Tool, ToolParameters } from "../types";
+
+interface DiceRollArgs {
+    sides?: number;
+    count?: number;
+}
+
+/**
+ * Rolls one or more dice
+ */
+export class DiceRollTool implements Tool<DiceRollArgs> {
+    public readonly name = "roll_dice";
+    public readonly description = "Roll dice, e.g. when someone asks for a d20 roll or a random number in a range starting at 1.";
+    public readonly parameters: ToolParameters = {
+        type: "object",
+        properties: {
+            sides: { type: "integer", description: "Number of sides per die (default 6)", minimum: 2, maximum: 1000 },
+            count: { type: "integer", description: "Number of dice to roll (default 1)", minimum: 1, maximum: 20 }
+        }
+    };
+
+    public async execute(args: DiceRollArgs): Promise<string> {
+        const sides = args.sides ?? 6;
+        const count = args.count ?? 1;
+        const rolls = Array.from({ length: count }, () => randomInt(1, sides + 1));
+        const total = rolls.reduce((sum, roll) => sum + roll, 0);
+
+        return `Rolled ${count}d${sides}: ${rolls.join(", ")}${count > 1 ? ` (total ${total})` : ""}`;
+    }
+}
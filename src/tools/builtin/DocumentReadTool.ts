@@ -0,0 +1,90 @@
+import { Tool, ToolContext, ToolParameters } from "../types";
+import { ChannelCacheManager } from "../../handlers/cache/ChannelCacheManager";
+import { DocumentProcessor } from "../../handlers/message/DocumentProcessor";
+import { CachedMessage } from "../../types";
+import { describeDocumentSkipReason } from "../../utils/documents";
+
+interface DocumentReadArgs {
+    messageId?: string;
+    fileIndex?: number;
+    part?: number;
+    query?: string;
+}
+
+/**
+ * Most a search of a file returns, so a result doesn't crowd out the conversation
+ */
+const MAX_RESULT_TOKENS = 1500;
+
+/**
+ * Reads more of a text file attached to a message than the context quotes
+ */
+export class DocumentReadTool implements Tool<DocumentReadArgs> {
+    public readonly name = "read_document";
+    public readonly description = "Read a text or code file attached to a message, by part number or by searching it. Defaults to the file in the message being replied to, or else the most recent file.";
+    public readonly parameters: ToolParameters = {
+        type: "object",
+        properties: {
+            messageId: { type: "string", description: "ID of the message the file is attached to" },
+            fileIndex: { type: "integer", description: "Which file in the message, starting at 0", minimum: 0 },
+            part: { type: "integer", description: "Which part of the file to read, starting at 1", minimum: 1 },
+            query: { type: "string", description: "Words to look for; the most relevant parts are returned" }
+        }
+    };
+
+    constructor(
+        private readonly cacheManager: ChannelCacheManager,
+        private readonly documentProcessor: DocumentProcessor
+    ) {}
+
+    public async execute(args: DocumentReadArgs, context: ToolContext): Promise<string> {
+        const message = this.findMessage(args.messageId, context);
+        if (!message?.documents) {
+            return args.messageId ? `No message with ID ${args.messageId} has files` : "No file is available to read";
+        }
+
+        const document = message.documents[args.fileIndex ?? 0];
+        if (!document) {
+            return `Message ${message.id} has ${message.documents.length} file(s); index ${args.fileIndex} doesn't exist`;
+        }
+        if (document.skipped) {
+            return `File "${document.name}" can't be read: ${describeDocumentSkipReason(document.skipped)}`;
+        }
+
+        if (args.part !== undefined) {
+            const text = await this.documentProcessor.readPart(document, args.part, context.signal);
+            if (text === null) {
+                return document.parts
+                    ? `File "${document.name}" has ${document.parts} part(s); part ${args.part} doesn't exist`
+                    : `File "${document.name}" couldn't be downloaded`;
+            }
+            return `File "${document.name}", part ${args.part} of ${document.parts}:\n${text}`;
+        }
+
+        const quoted = await this.documentProcessor.quoteDocument(document, args.query ?? "", MAX_RESULT_TOKENS, context.signal);
+        return quoted === null
+            ? `File "${document.name}" couldn't be downloaded`
+            : `File "${document.name}":\n${quoted}`;
+    }
+
+    /**
+     * Finds the requested message. Without one, it's the message being replied
+     * to or answered if it has files, or else the most recent cached message with files.
+     */
+    private findMessage(messageId: string | undefined, context: ToolContext): CachedMessage | undefined {
+        if (messageId) {
+            const message = this.cacheManager.findMessage(messageId, context.channelId);
+            return message?.documents?.length ? message : undefined;
+        }
+
+        const message = this.cacheManager.findMessage(context.referencedMessageId ?? context.messageId, context.channelId);
+        if (message?.documents?.length) {
+            return message;
+        }
+
+        const messages = this.cacheManager.getCache(context.channelId)?.messages ?? [];
+        return [...messages]
+            .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+            .find(m => m.documents?.length);
+    }
+}
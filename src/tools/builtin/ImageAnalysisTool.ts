@@ -0,0 +1,84 @@
+import { Tool, ToolContext, ToolParameters } from "../types";
+import { ChannelCacheManager } from "../../handlers/cache/ChannelCacheManager";
+import { ImageProcessor } from "../../handlers/message/ImageProcessor";
+import { CachedMessage } from "../../types";
+
+interface ImageAnalysisArgs {
+    messageId?: string;
+    imageIndex?: number;
+}
+
+/**
+ * Fetches a detailed analysis of a cached image on demand
+ */
+export class ImageAnalysisTool implements Tool<ImageAnalysisArgs> {
+    public readonly name = "analyze_image";
+    public readonly description = "Get a detailed description of an image in the conversation. Defaults to the image in the message being replied to, or else the most recent image.";
+    public readonly parameters: ToolParameters = {
+        type: "object",
+        properties: {
+            messageId: { type: "string", description: "ID of the message containing the image" },
+            imageIndex: { type: "integer", description: "Which image in the message, starting at 0", minimum: 0 }
+        }
+    };
+    // Vision requests are much slower than the other tools
+    public readonly timeoutMs = 20000;
+
+    constructor(
+        private readonly cacheManager: ChannelCacheManager,
+        private readonly imageProcessor: ImageProcessor
+    ) {}
+
+    public async execute(args: ImageAnalysisArgs, context: ToolContext): Promise<string> {
+        const message = this.findMessage(args.messageId, context);
+        if (!message) {
+            return args.messageId ? `No message with ID ${args.messageId} has images` : "No image is available to analyze";
+        }
+
+        const image = message.images[args.imageIndex ?? 0];
+        if (!image) {
+            return `Message ${message.id} has ${message.images.length} image(s); index ${args.imageIndex} doesn't exist`;
+        }
+
+        // Reuse an earlier detailed analysis of the same image
+        if (image.detailedAnalysis) {
+            return image.detailedAnalysis;
+        }
+
+        const analysis = await this.imageProcessor.performDetailedAnalysis(image, {
+            signal: context.signal,
+            usage: context.usage
+        });
+        if (analysis === null) {
+            return "Error analyzing image";
+        }
+        // Only real analyses are kept, so failed and skipped images are tried again next time
+        if (!image.skipped) {
+            image.detailedAnalysis = analysis;
+        }
+        return analysis;
+    }
+
+    /**
+     * Finds the requested message. Without one, it's the message being replied
+     * to if it has images, or else the most recent cached message with images.
+     */
+    private findMessage(messageId: string | undefined, context: ToolContext): CachedMessage | undefined {
+        if (messageId) {
+            const message = this.cacheManager.findMessage(messageId, context.channelId);
+            return message?.images.length ? message : undefined;
+        }
+
+        const referenced = context.referencedMessageId
+            ? this.cacheManager.findMessage(context.referencedMessageId, context.channelId)
+            : undefined;
+        if (referenced?.images.length) {
+            return referenced;
+        }
+
+        const messages = this.cacheManager.getCache(context.channelId)?.messages ?? [];
+        return [...messages]
+            .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+            .find(m => m.images.length > 0);
+    }
+}
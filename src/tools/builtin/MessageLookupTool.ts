@@ -0,0 +1,44 @@
+import { Tool, ToolContext, ToolParameters } from "../types";
+import { ChannelCacheManager } from "../../handlers/cache/ChannelCacheManager";
+import { formatImageLine } from "../../utils/images";
+import { formatEmbedLine } from "../../utils/embeds";
+import { formatDocumentLine } from "../../utils/documents";
+
+interface MessageLookupArgs {
+    messageId: string;
+}
+
+/**
+ * Looks up an older message by ID from the channel caches
+ */
+export class MessageLookupTool implements Tool<MessageLookupArgs> {
+    public readonly name = "lookup_message";
+    public readonly description = "Look up an earlier Discord message by its ID, e.g. the target of a reply that isn't in the recent conversation.";
+    public readonly parameters: ToolParameters = {
+        type: "object",
+        properties: {
+            messageId: { type: "string", description: "The Discord message ID" }
+        },
+        required: ["messageId"]
+    };
+
+    constructor(private readonly cacheManager: ChannelCacheManager) {}
+
+    public async execute(args: MessageLookupArgs, context: ToolContext): Promise<string> {
+        const message = this.cacheManager.findMessage(args.messageId, context.channelId);
+
+        if (!message) {
+            return `No message with ID ${args.messageId} is available`;
+        }
+
+        const imageLines = message.images.map(formatImageLine);
+        const embedLines = (message.embeds ?? []).map(formatEmbedLine);
+        const documentLines = (message.documents ?? []).map(formatDocumentLine);
+        return [
+            `<@${message.authorId}> (${message.authorName}) at ${message.timestamp.toISOString()}: ${message.content}`,
+            ...imageLines,
+            ...embedLines,
+            ...documentLines
+        ].join("\n");
+    }
+}
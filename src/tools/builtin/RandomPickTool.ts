@@ -0,0 +1,35 @@
+import { randomInt } from "crypto";
+import { Tool, ToolParameters } from "../types";
+
+interface RandomPickArgs {
+    options: string[];
+    count?: number;
+}
+
+/**
+ * Picks one or more options at random
+ */
+export class RandomPickTool implements Tool<RandomPickArgs> {
+    public readonly name = "random_pick";
+    public readonly description = "Pick at random from a list of options, e.g. when someone asks the bot to choose for them.";
+    public readonly parameters: ToolParameters = {
+        type: "object",
+        properties: {
+            options: { type: "array", description: "The options to pick from", items: { type: "string" }, minItems: 2, maxItems: 50 },
+            count: { type: "integer", description: "How many distinct options to pick (default 1)", minimum: 1, maximum: 10 }
+        },
+        required: ["options"]
+    };
+
+    public async execute(args: RandomPickArgs): Promise<string> {
+        const remaining = [...args.options];
+        const count = Math.min(args.count ?? 1, remaining.length);
+        const picks: string[] = [];
+
+        for (let i = 0; i < count; i++) {
+            picks.push(...remaining.splice(randomInt(remaining.length), 1));
+        }
+
+        return `Picked: ${picks.join(", ")}`;
+    }
+}
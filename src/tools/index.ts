@@ -0,0 +1,33 @@
+import { ChannelCacheManager } from "../handlers/cache/ChannelCacheManager";
+import { ImageProcessor } from "../handlers/message/ImageProcessor";
+import { DocumentProcessor } from "../handlers/message/DocumentProcessor";
+import { ToolRegistry } from "./ToolRegistry";
+import { MessageLookupTool } from "./builtin/MessageLookupTool";
+import { ImageAnalysisTool } from "./builtin/ImageAnalysisTool";
+import { DocumentReadTool } from "./builtin/DocumentReadTool";
+import { DiceRollTool } from "./builtin/DiceRollTool";
+import { RandomPickTool } from "./builtin/RandomPickTool";
+import { CurrentTimeTool } from "./builtin/CurrentTimeTool";
+
+/**
+ * Creates a registry with all first-party tools registered
+ */
+export function createToolRegistry(
+    cacheManager: ChannelCacheManager,
+    imageProcessor: ImageProcessor,
+    documentProcessor?: DocumentProcessor
+): ToolRegistry {
+    const registry = new ToolRegistry();
+    registry.register(new MessageLookupTool(cacheManager));
+    registry.register(new ImageAnalysisTool(cacheManager, imageProcessor));
+    if (documentProcessor) {
+        registry.register(new DocumentReadTool(cacheManager, documentProcessor));
+    }
+    registry.register(new DiceRollTool());
+    registry.register(new RandomPickTool());
+    registry.register(new CurrentTimeTool());
+    return registry;
+}
+
+export { ToolRegistry };
+export * from "./types";
@@ -0,0 +1,63 @@
+import { UsageScope } from "../handlers/usage/types";
+
+/**
+ * Schema for a single tool argument (a JSON schema subset)
+ */
+type ToolParameter =
+    | { type: "string"; description: string; enum?: string[] }
+    | { type: "integer" | "number"; description: string; minimum?: number; maximum?: number }
+    | { type: "boolean"; description: string }
+    | { type: "array"; description: string; items: { type: "string" }; minItems?: number; maxItems?: number };
+
+/**
+ * Schema for a tool's arguments object
+ */
+interface ToolParameters {
+    type: "object";
+    properties: Record<string, ToolParameter>;
+    required?: string[];
+}
+
+/**
+ * Information about the conversation a tool is called from
+ */
+interface ToolContext {
+    channelId: string;
+    /** The message the bot is responding to */
+    messageId: string;
+    /** The message the current message replies to, if any */
+    referencedMessageId?: string;
+    /** Who LLM calls made by tools are counted against */
+    usage?: UsageScope;
+    /** Aborted when the reply is cancelled, so tools stop their work too */
+    signal?: AbortSignal;
+}
+
+/**
+ * A function the chat model can call
+ */
+interface Tool<TArgs = Record<string, unknown>> {
+    readonly name: string;
+    readonly description: string;
+    readonly parameters: ToolParameters;
+    /** Overrides the registry's default per-call timeout */
+    readonly timeoutMs?: number;
+    /**
+     * Runs the tool with validated arguments
+     * @returns Text handed back to the model as the tool result
+     */
+    execute(args: TArgs, context: ToolContext): Promise<string>;
+}
+
+/**
+ * Raised when a model supplies arguments that don't match a tool's schema
+ */
+class ToolArgumentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ToolArgumentError";
+    }
+}
+
+export type { ToolParameter, ToolParameters, ToolContext, Tool };
+export { ToolArgumentError };
@@ -0,0 +1,91 @@
+import { ToolParameter, ToolParameters, ToolArgumentError } from "./types";
+
+/**
+ * Parses raw JSON arguments from the model and validates them against a tool's schema
+ * @throws ToolArgumentError when the arguments are malformed or don't match
+ */
+export function parseToolArguments<TArgs>(rawArguments: string, schema: ToolParameters): TArgs {
+    let parsed: unknown;
+    try {
+        parsed = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+    } catch {
+        throw new ToolArgumentError("Arguments are not valid JSON");
+    }
+
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+        throw new ToolArgumentError("Arguments must be a JSON object");
+    }
+
+    const args = parsed as Record<string, unknown>;
+
+    for (const name of schema.required ?? []) {
+        if (args[name] === undefined || args[name] === null) {
+            throw new ToolArgumentError(`Missing required argument "${name}"`);
+        }
+    }
+
+    for (const [name, value] of Object.entries(args)) {
+        const parameter = schema.properties[name];
+        if (!parameter) {
+            throw new ToolArgumentError(`Unknown argument "${name}"`);
+        }
+        // Models sometimes send explicit nulls for optional arguments
+        if (value === null) {
+            delete args[name];
+            continue;
+        }
+        validateParameter(name, value, parameter);
+    }
+
+    return args as TArgs;
+}
+
+/**
+ * Validates a single argument value
+ */
+function validateParameter(name: string, value: unknown, parameter: ToolParameter): void {
+    switch (parameter.type) {
+        case "string":
+            if (typeof value !== "string") {
+                throw new ToolArgumentError(`"${name}" must be a string`);
+            }
+            if (parameter.enum && !parameter.enum.includes(value)) {
+                throw new ToolArgumentError(`"${name}" must be one of: ${parameter.enum.join(", ")}`);
+            }
+            return;
+
+        case "integer":
+        case "number":
+            if (typeof value !== "number" || !Number.isFinite(value)) {
+                throw new ToolArgumentError(`"${name}" must be a number`);
+            }
+            if (parameter.type === "integer" && !Number.isInteger(value)) {
+                throw new ToolArgumentError(`"${name}" must be an integer`);
+            }
+            if (parameter.minimum !== undefined && value < parameter.minimum) {
+                throw new ToolArgumentError(`"${name}" must be at least ${parameter.minimum}`);
+            }
+            if (parameter.maximum !== undefined && value > parameter.maximum) {
+                throw new ToolArgumentError(`"${name}" must be at most ${parameter.maximum}`);
+            }
+            return;
+
+        case "boolean":
+            if (typeof value !== "boolean") {
+                throw new ToolArgumentError(`"${name}" must be a boolean`);
+            }
+            return;
+
+        case "array":
+            if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+                throw new ToolArgumentError(`"${name}" must be an array of strings`);
+            }
+            if (parameter.minItems !== undefined && value.length < parameter.minItems) {
+                throw new ToolArgumentError(`"${name}" must have at least ${parameter.minItems} items`);
+            }
+            if (parameter.maxItems !== undefined && value.length > parameter.maxItems) {
+                throw new ToolArgumentError(`"${name}" must have at most ${parameter.maxItems} items`);
+            }
+            return;
+    }
+}
@@ -1,11 +1,75 @@
 // src/types.ts
+/**
+ * Why an image was left undescribed
+ */
+type ImageSkipReason = "too_large" | "too_many" | "unsupported_type" | "unreadable" | "usage_budget";
+
+/**
+ * Where an image in a message comes from
+ */
+type ImageOrigin = "attachment" | "embed" | "gif" | "sticker" | "video";
+
 /**
  * Represents the analysis results for an image
  */
 interface ImageAnalysis {
-    lightAnalysis: string;
+    /** Filled in lazily, the first time the image's message goes into a prompt */
+    lightAnalysis?: string;
     detailedAnalysis?: string;
     url: string;
+    /** Size in bytes as reported by Discord */
+    size?: number;
+    contentType?: string;
+    /** Set when the image won't be (or wasn't yet) analyzed, so the context can say why */
+    skipped?: ImageSkipReason;
+    /** Identifies the image's content across reposts, once it has been analyzed */
+    contentKey?: string;
+    /** An attachment when omitted */
+    origin?: ImageOrigin;
+    /** A sticker's name, a video's file name or an embed's title */
+    label?: string;
+}
+
+/**
+ * The text of an embed, e.g. a link preview or a bot's rich embed
+ */
+interface EmbedSummary {
+    /** Site the preview comes from, e.g. "YouTube" */
+    provider?: string;
+    author?: string;
+    title?: string;
+    description?: string;
+    url?: string;
+    /** Each field as "name: value" */
+    fields?: string[];
+}
+
+/**
+ * Why a text file attachment wasn't read
+ */
+type DocumentSkipReason = "too_many" | "unreadable";
+
+/**
+ * A text, code or document file attached to a message
+ */
+interface DocumentAttachment {
+    name: string;
+    url: string;
+    /** Size in bytes as reported by Discord */
+    size?: number;
+    contentType?: string;
+    /** Filled in lazily, the first time the file's message goes into a prompt */
+    excerpt?: string;
+    /** Encoding the file was decoded with, e.g. "utf-8" */
+    encoding?: string;
+    /** Estimated tokens of everything that was read */
+    tokens?: number;
+    /** Parts the text is split into so it can be read within the token budget */
+    parts?: number;
+    /** Set when only the beginning of the file was read, due to the size limit */
+    truncated?: boolean;
+    /** Set when the file won't be read, so the context can say why */
+    skipped?: DocumentSkipReason;
 }
 
 /**
@@ -17,7 +81,10 @@ interface CachedMessage {
     authorId: string;
     authorName: string;
     timestamp: Date;
+    /** Attachments, plus images from embeds, stickers and video thumbnails */
     images: ImageAnalysis[];
+    embeds?: EmbedSummary[];
+    documents?: DocumentAttachment[];
     referencedMessage?: string;
 }
 
@@ -25,8 +92,13 @@ interface CachedMessage {
  * Represents the message cache for a channel
  */
 interface ChannelCache {
+    channelId: string;
     messages: CachedMessage[];
     lastMessageId?: string;
+    /** Private channels (DMs) never leak their messages into other channels */
+    isPrivate?: boolean;
+    /** The server the channel belongs to, null for DMs */
+    guildId?: string | null;
 }
 
 /**
@@ -39,5 +111,24 @@ interface EmojiInfo {
     isAnimated: boolean;
 }
 
-export type { ImageAnalysis, CachedMessage, ChannelCache, EmojiInfo };
+/**
+ * The Discord user a bot instance runs as
+ */
+interface BotIdentity {
+    id: string;
+    name: string;
+}
+
+export type {
+    ImageSkipReason,
+    ImageOrigin,
+    ImageAnalysis,
+    EmbedSummary,
+    DocumentSkipReason,
+    DocumentAttachment,
+    CachedMessage,
+    ChannelCache,
+    EmojiInfo,
+    BotIdentity
+};
   
\ No newline at end of file
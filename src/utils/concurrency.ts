@@ -0,0 +1,42 @@
+/**
+ * Runs a task once a slot is free
+ */
+type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limiter that runs at most `concurrency` tasks at once, starting
+ * queued tasks in the order they were submitted
+ */
+export function createLimiter(concurrency: number): Limiter {
+    let active = 0;
+    const queue: Array<() => void> = [];
+
+    const next = () => {
+        active--;
+        queue.shift()?.();
+    };
+
+    return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+        const run = () => {
+            active++;
+            task().then(
+                value => {
+                    next();
+                    resolve(value);
+                },
+                error => {
+                    next();
+                    reject(error);
+                }
+            );
+        };
+
+        if (active < concurrency) {
+            run();
+        } else {
+            queue.push(run);
+        }
+    });
+}
+
+export type { Limiter };
@@ -0,0 +1,46 @@
+import { DocumentAttachment, DocumentSkipReason } from "../types";
+
+/**
+ * How each skip reason reads in context
+ */
+const SKIP_DESCRIPTIONS: Record<DocumentSkipReason, string> = {
+    too_many: "too many files in one message",
+    unreadable: "not a text file"
+};
+
+/**
+ * Explains why a file wasn't read
+ */
+export function describeDocumentSkipReason(reason: DocumentSkipReason): string {
+    return SKIP_DESCRIPTIONS[reason];
+}
+
+/**
+ * Formats a byte count for people, e.g. "12 KB"
+ */
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Formats a file as a context line, with the beginning of its text when it
+ * has been read or the reason it was skipped
+ */
+export function formatDocumentLine(document: DocumentAttachment): string {
+    const name = `File "${document.name}"`;
+    if (document.skipped) {
+        return `[${name} not read: ${describeDocumentSkipReason(document.skipped)}]`;
+    }
+    if (document.excerpt === undefined) {
+        return `[${name}]`;
+    }
+
+    const details = [
+        document.size !== undefined ? formatSize(document.size) : undefined,
+        document.parts && document.parts > 1 ? `${document.parts} parts` : undefined,
+        document.truncated ? "only the beginning was read" : undefined
+    ].filter(Boolean).join(", ");
+    return `[${name}${details ? ` (${details})` : ""}:\n${document.excerpt}]`;
+}
@@ -0,0 +1,52 @@
+import { Message } from "discord.js";
+import { EmbedSummary } from "../types";
+import { truncateToTokens } from "./tokens";
+
+/**
+ * Longest an embed's description or a field may be in context
+ */
+const MAX_EMBED_TEXT_TOKENS = 150;
+
+/**
+ * Fields kept per embed; bot embeds can carry up to 25
+ */
+const MAX_EMBED_FIELDS = 10;
+
+/**
+ * Collects the text of a message's embeds. Embeds with nothing to read, such
+ * as GIF previews, are left out; their images are collected by ImageProcessor.
+ */
+export function summarizeEmbeds(message: Message): EmbedSummary[] {
+    const summaries: EmbedSummary[] = [];
+
+    for (const embed of message.embeds) {
+        const fields = embed.fields
+            .slice(0, MAX_EMBED_FIELDS)
+            .map(field => truncateToTokens(`${field.name}: ${field.value}`, MAX_EMBED_TEXT_TOKENS));
+        const summary: EmbedSummary = {
+            provider: embed.provider?.name ?? undefined,
+            author: embed.author?.name ?? undefined,
+            title: embed.title ?? undefined,
+            description: embed.description ? truncateToTokens(embed.description, MAX_EMBED_TEXT_TOKENS) : undefined,
+            url: embed.url ?? undefined,
+            fields: fields.length > 0 ? fields : undefined
+        };
+
+        if (summary.author || summary.title || summary.description || summary.fields) {
+            summaries.push(summary);
+        }
+    }
+
+    return summaries;
+}
+
+/**
+ * Formats an embed's text as a context line, e.g.
+ * "[Embed from YouTube: Channel - Video title - What it's about]"
+ */
+export function formatEmbedLine(embed: EmbedSummary): string {
+    const source = embed.provider ? ` from ${embed.provider}` : "";
+    const parts = [embed.author, embed.title, embed.description, ...(embed.fields ?? [])]
+        .filter((part): part is string => !!part);
+    return `[Embed${source}: ${parts.length > 0 ? parts.join(" - ") : embed.url ?? ""}]`;
+}
@@ -0,0 +1,44 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+
+/**
+ * Writes a file through a temporary file and a rename, so a crash
+ * mid-write never leaves a truncated file behind
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, data, "utf-8");
+    await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Runs writes one after another, so two saves of the same data never overlap
+ */
+interface SerialWriter {
+    /**
+     * Queues a write behind the ones already queued
+     * @returns Once this write finishes; rejects if it fails, without stopping later writes
+     */
+    write(task: () => Promise<void>): Promise<void>;
+    /** Resolves once every queued write has finished */
+    idle(): Promise<void>;
+}
+
+/**
+ * Creates a writer that runs queued writes in order, one at a time
+ */
+export function createSerialWriter(): SerialWriter {
+    let last: Promise<void> = Promise.resolve();
+
+    return {
+        write: task => {
+            const result = last.then(task);
+            last = result.catch(() => undefined);
+            return result;
+        },
+        idle: () => last
+    };
+}
+
+export type { SerialWriter };
@@ -0,0 +1,62 @@
+import { ImageAnalysis, ImageSkipReason } from "../types";
+
+/**
+ * How each skip reason reads in context
+ */
+const SKIP_DESCRIPTIONS: Record<ImageSkipReason, string> = {
+    too_large: "too large to look at",
+    too_many: "too many images in one message",
+    unsupported_type: "file type not supported",
+    unreadable: "couldn't be opened",
+    usage_budget: "skipped to save usage budget"
+};
+
+/**
+ * Hosts whose URLs carry a signed query string that Discord regenerates over time
+ */
+const DISCORD_CDN_HOSTS = new Set(["cdn.discordapp.com", "media.discordapp.net"]);
+
+/**
+ * Explains why an image wasn't described
+ */
+export function describeSkipReason(reason: ImageSkipReason): string {
+    return SKIP_DESCRIPTIONS[reason];
+}
+
+/**
+ * Gets a URL that stays the same for the same Discord file: the signed query
+ * string of CDN URLs is dropped, while other URLs are kept whole since their
+ * query may pick the image
+ */
+export function stableImageUrl(url: string): string {
+    try {
+        return DISCORD_CDN_HOSTS.has(new URL(url).hostname) ? url.split("?")[0] : url;
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Names what kind of image an image is, e.g. "GIF" or "Sticker "wave""
+ */
+export function describeImageKind(image: ImageAnalysis): string {
+    switch (image.origin ?? "attachment") {
+        case "embed": return "Embedded image";
+        case "gif": return "GIF";
+        case "sticker": return image.label ? `Sticker "${image.label}"` : "Sticker";
+        case "video": return image.label ? `Video thumbnail of ${image.label}` : "Video thumbnail";
+        default: return "Image";
+    }
+}
+
+/**
+ * Formats an image as a context line, with its light analysis when it has one
+ * or the reason it was skipped
+ */
+export function formatImageLine(image: ImageAnalysis): string {
+    const kind = describeImageKind(image);
+    if (image.lightAnalysis) {
+        return `[${kind}: ${image.lightAnalysis}]`;
+    }
+    return image.skipped ? `[${kind} not described: ${describeSkipReason(image.skipped)}]` : `[${kind}]`;
+}
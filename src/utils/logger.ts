@@ -13,7 +13,7 @@ interface ConversationContext {
  * Centralized logger configuration for consistent logging across the application
  */
 const baseLogger = pino({
-    level: "debug",
+    level: process.env.LOG_LEVEL || "debug",
     transport: {
         target: "pino-pretty",
         options: {
@@ -0,0 +1,50 @@
+/**
+ * Approximate characters per token for ASCII text with Llama-style BPE tokenizers
+ */
+const ASCII_CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates how many tokens a piece of text uses.
+ * ASCII text averages about four characters per token, while emoji and other
+ * non-ASCII characters usually cost at least a token each, so they're counted singly.
+ */
+export function estimateTokens(text: string): number {
+    if (!text) return 0;
+
+    let asciiChars = 0;
+    let otherChars = 0;
+    for (const char of text) {
+        if (char.charCodeAt(0) < 128) {
+            asciiChars++;
+        } else {
+            otherChars++;
+        }
+    }
+
+    return Math.ceil(asciiChars / ASCII_CHARS_PER_TOKEN) + otherChars;
+}
+
+/**
+ * Truncates text so its estimated token count fits within maxTokens,
+ * keeping the beginning and marking the cut with an ellipsis
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+    if (estimateTokens(text) <= maxTokens) return text;
+    if (maxTokens <= 0) return "";
+
+    const chars = Array.from(text);
+    let low = 0;
+    let high = chars.length;
+
+    // Binary search for the longest prefix that fits alongside the ellipsis
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (estimateTokens(chars.slice(0, mid).join("")) + 1 <= maxTokens) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return `${chars.slice(0, low).join("").trimEnd()}…`;
+}
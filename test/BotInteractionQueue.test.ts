@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { setTimeout as sleep } from "timers/promises";
+import { TextBasedChannel } from "discord.js";
+import { BotInteractionQueue } from "../src/handlers/message/BotInteractionQueue";
+
+const channel = { id: "channel" } as unknown as TextBasedChannel;
+
+/**
+ * An action that doesn't finish until released, to hold the channel busy
+ */
+function blocker(): { action: () => Promise<void>; release: () => void } {
+    let release = () => {};
+    const done = new Promise<void>(resolve => {
+        release = resolve;
+    });
+    return { action: () => done, release };
+}
+
+test("runs higher priority items first, then in the order they arrived", async () => {
+    const queue = new BotInteractionQueue({ minDelayMs: 0, maxConcurrency: 1 });
+    const busy = blocker();
+    const ran: string[] = [];
+    queue.enqueue(busy.action, channel);
+
+    queue.enqueue(async () => { ran.push("mention 1"); }, channel, { priority: 1 });
+    queue.enqueue(async () => { ran.push("dm"); }, channel, { priority: 2 });
+    queue.enqueue(async () => { ran.push("mention 2"); }, channel, { priority: 1 });
+    busy.release();
+    await sleep(10);
+
+    assert.deepEqual(ran, ["dm", "mention 1", "mention 2"]);
+});
+
+test("discards items that waited past their deadline", async () => {
+    const queue = new BotInteractionQueue({ minDelayMs: 0, maxConcurrency: 1 });
+    const busy = blocker();
+    let ran = false;
+    let discarded = false;
+    queue.enqueue(busy.action, channel);
+    queue.enqueue(async () => { ran = true; }, channel, { deadlineMs: 5, onDiscard: () => { discarded = true; } });
+
+    await sleep(20);
+    busy.release();
+    await sleep(10);
+
+    assert.equal(ran, false);
+    assert.equal(discarded, true);
+});
+
+test("coalesces an overflowing item with a waiting item with the same key", async () => {
+    const queue = new BotInteractionQueue({ minDelayMs: 0, maxConcurrency: 1, maxDepth: 2, overflowPolicy: "coalesce" });
+    const busy = blocker();
+    const ran: string[] = [];
+    const discarded: string[] = [];
+    queue.enqueue(busy.action, channel);
+
+    queue.enqueue(async () => { ran.push("a1"); }, channel, { coalesceKey: "a", onDiscard: () => discarded.push("a1") });
+    queue.enqueue(async () => { ran.push("b1"); }, channel, { coalesceKey: "b" });
+    assert.equal(queue.enqueue(async () => { ran.push("a2"); }, channel, { coalesceKey: "a" }), true);
+    busy.release();
+    await sleep(10);
+
+    // a2 takes a1's place in line
+    assert.deepEqual(ran, ["a2", "b1"]);
+    assert.deepEqual(discarded, ["a1"]);
+});
+
+test("takes a removed action out of the queue", async () => {
+    const queue = new BotInteractionQueue({ minDelayMs: 0, maxConcurrency: 1 });
+    const busy = blocker();
+    const ran: string[] = [];
+    let discarded = false;
+    const first = async () => { ran.push("first"); };
+    queue.enqueue(busy.action, channel);
+    queue.enqueue(first, channel, { onDiscard: () => { discarded = true; } });
+    queue.enqueue(async () => { ran.push("second"); }, channel);
+
+    assert.equal(queue.remove("channel", first), true);
+    assert.equal(queue.getDepth("channel"), 1);
+    busy.release();
+    await sleep(10);
+
+    assert.deepEqual(ran, ["second"]);
+    assert.equal(discarded, true);
+});
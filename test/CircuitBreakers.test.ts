@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { AuthError, CircuitBreakers, ContextLengthError, RateLimitError, ServerError } from "../src/providers";
+
+test("opens after repeated transient failures and closes on success", () => {
+    const breakers = new CircuitBreakers();
+    const error = new ServerError("down", "mock");
+
+    breakers.recordFailure("mock", "model", error);
+    breakers.recordFailure("mock", "model", error);
+    assert.equal(breakers.isAvailable("mock", "model"), true);
+
+    breakers.recordFailure("mock", "model", error);
+    assert.equal(breakers.isAvailable("mock", "model"), false);
+    assert.equal(breakers.getOpenError("mock", "model"), error);
+
+    breakers.recordSuccess("mock", "model");
+    assert.equal(breakers.isAvailable("mock", "model"), true);
+    assert.deepEqual(breakers.getStatus(), []);
+});
+
+test("opens at once for rate limits and auth failures, for their own cooldown", () => {
+    const breakers = new CircuitBreakers();
+
+    breakers.recordFailure("mock", "limited", new RateLimitError("slow down", "mock", 0));
+    breakers.recordFailure("mock", "unauthorized", new AuthError("bad key", "mock"));
+
+    // A zero Retry-After ends the cooldown immediately, letting a trial request through
+    assert.equal(breakers.isAvailable("mock", "limited"), true);
+    assert.equal(breakers.isAvailable("mock", "unauthorized"), false);
+});
+
+test("a failed trial request reopens the circuit", () => {
+    const breakers = new CircuitBreakers();
+    breakers.recordFailure("mock", "model", new RateLimitError("slow down", "mock", 0));
+    assert.equal(breakers.isAvailable("mock", "model"), true);
+
+    breakers.recordFailure("mock", "model", new ServerError("down", "mock"));
+    assert.equal(breakers.isAvailable("mock", "model"), false);
+});
+
+test("ignores failures caused by the request rather than the model", () => {
+    const breakers = new CircuitBreakers();
+    for (let i = 0; i < 5; i++) {
+        breakers.recordFailure("mock", "model", new ContextLengthError("too long", "mock"));
+    }
+    assert.equal(breakers.isAvailable("mock", "model"), true);
+});
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { setImmediate } from "timers/promises";
+import * as os from "os";
+import * as path from "path";
+import { GroqHandler } from "../src/groqApi";
+import { MockProvider } from "../src/providers";
+import { ChannelCacheManager } from "../src/handlers/cache/ChannelCacheManager";
+import { ConversationSummarizer } from "../src/handlers/summary/ConversationSummarizer";
+import { UsageTracker } from "../src/handlers/usage/UsageTracker";
+import { CachedMessage } from "../src/types";
+
+function message(id: string): CachedMessage {
+    return { id, content: `message ${id}`, authorId: "42", authorName: "fren", timestamp: new Date(), images: [] };
+}
+
+function setup(): { cacheManager: ChannelCacheManager; summarizer: ConversationSummarizer; usageTracker: UsageTracker } {
+    const groqHandler = new GroqHandler([new MockProvider(["they talked about cats"])], {
+        identity: { id: "1000", name: "SmolBot" }
+    });
+    const usageTracker = new UsageTracker({ filePath: path.join(os.tmpdir(), "smolbot-summarizer-usage.json") });
+    groqHandler.setUsageTracker(usageTracker);
+    const cacheManager = new ChannelCacheManager({ maxSize: 2 });
+    const summarizer = new ConversationSummarizer(groqHandler, cacheManager, { batchSize: 2, maxPendingMessages: 10 });
+    return { cacheManager, summarizer, usageTracker };
+}
+
+test("folds evicted messages into the channel summary", async () => {
+    const { cacheManager, summarizer } = setup();
+    for (const id of ["1", "2", "3", "4"]) {
+        await cacheManager.addMessage("channel", message(id));
+    }
+    await setImmediate();
+
+    assert.equal(summarizer.getSummary("channel"), "they talked about cats");
+});
+
+test("discards a summary that finishes after the channel was cleared", async () => {
+    const { cacheManager, summarizer } = setup();
+    for (const id of ["1", "2", "3", "4"]) {
+        await cacheManager.addMessage("channel", message(id));
+    }
+    cacheManager.clearCache("channel");
+    await setImmediate();
+
+    assert.equal(summarizer.getSummary("channel"), undefined);
+});
+
+test("counts summaries against the channel's server", async () => {
+    const { cacheManager, summarizer, usageTracker } = setup();
+    cacheManager.setGuild("channel", "guild");
+    for (const id of ["1", "2", "3", "4"]) {
+        await cacheManager.addMessage("channel", message(id));
+    }
+    await setImmediate();
+
+    assert.equal(summarizer.getSummary("channel"), "they talked about cats");
+    assert.ok(usageTracker.getTotals("guild", "guild").day);
+    assert.ok(usageTracker.getTotals("channel", "channel").day);
+});
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { DocumentProcessor } from "../src/handlers/message/DocumentProcessor";
+
+/**
+ * Serves a text file over HTTP, counting the downloads
+ */
+async function serve(text: string): Promise<{ url: string; downloads: () => number; close: () => Promise<void> }> {
+    let downloads = 0;
+    const server = http.createServer((_request, response) => {
+        downloads++;
+        response.writeHead(200, { "content-type": "text/plain; charset=utf-8" });
+        response.end(text);
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/notes.txt`,
+        downloads: () => downloads,
+        close: () => new Promise(resolve => server.close(() => resolve()))
+    };
+}
+
+test("quotes the parts of a file that match the question, and nothing without a budget", async () => {
+    const lines = [
+        ...Array.from({ length: 20 }, (_, i) => `setup step ${i} installs the dependencies`),
+        ...Array.from({ length: 20 }, (_, i) => `the deploy script pushes release ${i} to production`)
+    ];
+    const file = await serve(lines.join("\n"));
+    const processor = new DocumentProcessor({ partTokens: 100 });
+    const document = { name: "notes.txt", url: file.url };
+
+    try {
+        assert.equal(await processor.quoteDocument(document, "how does deploy work", 0), "");
+        assert.equal(file.downloads(), 0);
+
+        const quoted = await processor.quoteDocument(document, "how does deploy work", 100);
+        assert.match(quoted ?? "", /deploy script/);
+        assert.doesNotMatch(quoted ?? "", /installs the dependencies/);
+    } finally {
+        await file.close();
+    }
+});
@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { ChannelCacheManager } from "../src/handlers/cache/ChannelCacheManager";
+import { DocumentProcessor } from "../src/handlers/message/DocumentProcessor";
+import { DocumentReadTool } from "../src/tools/builtin/DocumentReadTool";
+import { CachedMessage } from "../src/types";
+
+function message(id: string, documents: CachedMessage["documents"] = []): CachedMessage {
+    return { id, content: `message ${id}`, authorId: "42", authorName: "fren", timestamp: new Date(), images: [], documents };
+}
+
+test("doesn't read another file when the requested message has none", async () => {
+    const cacheManager = new ChannelCacheManager({ maxSize: 10 });
+    await cacheManager.addMessage("general", message("1", [{ name: "notes.txt", url: "https://example.com/notes.txt", skipped: "unreadable" }]));
+    await cacheManager.addMessage("general", message("2"));
+    const tool = new DocumentReadTool(cacheManager, new DocumentProcessor());
+    const context = { channelId: "general", messageId: "3" };
+
+    assert.equal(await tool.execute({ messageId: "2" }, context), "No message with ID 2 has files");
+    assert.equal(await tool.execute({ messageId: "9" }, context), "No message with ID 9 has files");
+    // Without a message ID, the most recent file is read
+    assert.match(await tool.execute({}, context), /^File "notes.txt" can't be read/);
+});
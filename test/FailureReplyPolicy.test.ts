@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { FailureReplyPolicy } from "../src/handlers/message/FailureReplyPolicy";
+import { CancelledError, QuotaExceededError, TimeoutError } from "../src/providers";
+
+test("picks the reply by the kind of failure", () => {
+    const policy = new FailureReplyPolicy();
+
+    assert.match(policy.getReply(new TimeoutError("slow")) ?? "", /taking too long/);
+    assert.match(policy.getReply(new QuotaExceededError("spent")) ?? "", /brain juice/);
+    assert.equal(policy.getReply(new CancelledError("superseded")), null);
+    assert.equal(policy.getReply(new Error("boom")), policy.getReply(new Error("other")));
+});
+
+test("uses configured replies and keeps the defaults for the rest", () => {
+    const policy = new FailureReplyPolicy({ timeout: null, quota: "no more today" });
+
+    assert.equal(policy.getReply(new TimeoutError("slow")), null);
+    assert.equal(policy.getReply(new QuotaExceededError("spent")), "no more today");
+    assert.equal(policy.getReply(new Error("boom")), new FailureReplyPolicy().getReply(new Error("boom")));
+});
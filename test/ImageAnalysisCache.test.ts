@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { ImageAnalysisCache } from "../src/handlers/cache/ImageAnalysisCache";
+
+test("a waiter that aborts leaves the shared analysis running for the others", async () => {
+    const cache = new ImageAnalysisCache({ maxEntries: 10 });
+    let finish!: (analysis: string) => void;
+    let runs = 0;
+    const analyze = () => {
+        runs++;
+        return new Promise<string>(resolve => {
+            finish = resolve;
+        });
+    };
+
+    const controller = new AbortController();
+    const first = cache.getOrAnalyze("sha256:a", "light", analyze, controller.signal);
+    const second = cache.getOrAnalyze("sha256:a", "light", analyze);
+
+    controller.abort(new Error("superseded"));
+    await assert.rejects(first, { message: "superseded" });
+
+    finish("a cat");
+    assert.equal(await second, "a cat");
+    assert.equal(runs, 1);
+    assert.equal(cache.get("sha256:a", "light"), "a cat");
+});
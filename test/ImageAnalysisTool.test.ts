@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "http";
+import { AddressInfo } from "net";
+import sharp from "sharp";
+import { ChannelCacheManager } from "../src/handlers/cache/ChannelCacheManager";
+import { ImageProcessor } from "../src/handlers/message/ImageProcessor";
+import { GroqHandler } from "../src/groqApi";
+import { MockProvider, ServerError } from "../src/providers";
+import { ImageAnalysisTool } from "../src/tools/builtin/ImageAnalysisTool";
+import { CachedMessage, ImageAnalysis } from "../src/types";
+
+const identity = { id: "1000", name: "SmolBot" };
+
+/**
+ * Serves a small PNG over HTTP
+ */
+async function serveImage(): Promise<{ url: string; close: () => Promise<void> }> {
+    const png = await sharp({ create: { width: 4, height: 4, channels: 3, background: "#ff0000" } }).png().toBuffer();
+    const server = http.createServer((_request, response) => {
+        response.writeHead(200, { "content-type": "image/png" });
+        response.end(png);
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/red.png`,
+        close: () => new Promise(resolve => server.close(() => resolve()))
+    };
+}
+
+function message(id: string, images: ImageAnalysis[] = []): CachedMessage {
+    return { id, content: `message ${id}`, authorId: "42", authorName: "fren", timestamp: new Date(), images };
+}
+
+test("doesn't analyze another image when the requested message has none", async () => {
+    const cacheManager = new ChannelCacheManager({ maxSize: 10 });
+    await cacheManager.addMessage("general", message("1", [{ url: "https://example.com/cat.png", detailedAnalysis: "a cat" }]));
+    await cacheManager.addMessage("general", message("2"));
+    const groqHandler = new GroqHandler([new MockProvider()], { identity });
+    const tool = new ImageAnalysisTool(cacheManager, new ImageProcessor(groqHandler));
+    const context = { channelId: "general", messageId: "3" };
+
+    assert.equal(await tool.execute({ messageId: "2" }, context), "No message with ID 2 has images");
+    assert.equal(await tool.execute({ messageId: "9" }, context), "No message with ID 9 has images");
+    // Without a message ID, the most recent image is used, with its earlier analysis
+    assert.equal(await tool.execute({}, context), "a cat");
+});
+
+test("keeps an analysis only once one succeeds", async () => {
+    const image = await serveImage();
+    const cacheManager = new ChannelCacheManager({ maxSize: 10 });
+    await cacheManager.addMessage("general", message("1", [{ url: image.url, contentType: "image/png" }]));
+    const provider = new MockProvider([new ServerError("down", "mock"), "a red square"]);
+    const tool = new ImageAnalysisTool(cacheManager, new ImageProcessor(new GroqHandler([provider], { identity })));
+    const context = { channelId: "general", messageId: "2" };
+
+    try {
+        assert.equal(await tool.execute({ messageId: "1" }, context), "Error analyzing image");
+        assert.equal(await tool.execute({ messageId: "1" }, context), "a red square");
+        assert.equal(await tool.execute({ messageId: "1" }, context), "a red square");
+        assert.equal(provider.getRequests().length, 2);
+    } finally {
+        await image.close();
+    }
+});
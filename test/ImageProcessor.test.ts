@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "http";
+import { AddressInfo } from "net";
+import sharp from "sharp";
+import { GroqHandler } from "../src/groqApi";
+import { ImageProcessor } from "../src/handlers/message/ImageProcessor";
+import { MockProvider } from "../src/providers";
+import { ImageAnalysis } from "../src/types";
+
+test("skips an image that turns out too large without a content length", async () => {
+    // Chunked and endless, so only counting what arrives can tell it's too large
+    const server = http.createServer((_request, response) => {
+        response.writeHead(200, { "content-type": "image/png" });
+        for (let i = 0; i < 4; i++) {
+            response.write(Buffer.alloc(512));
+        }
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const provider = new MockProvider();
+    const processor = new ImageProcessor(
+        new GroqHandler([provider], { identity: { id: "1000", name: "SmolBot" } }),
+        undefined,
+        { maxImageBytes: 1024 }
+    );
+    const image: ImageAnalysis = { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/huge.png` };
+
+    try {
+        assert.match(await processor.performDetailedAnalysis(image) ?? "", /^Image not analyzed/);
+        assert.equal(image.skipped, "too_large");
+        assert.equal(provider.getRequests().length, 0);
+    } finally {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    }
+});
+
+test("compares several images in one vision request when the model takes them all", async () => {
+    const png = await sharp({ create: { width: 4, height: 4, channels: 3, background: "#ff0000" } }).png().toBuffer();
+    const server = http.createServer((request, response) => {
+        response.writeHead(200, { "content-type": "image/png" });
+        // Each path serves different bytes, so the images aren't the same content
+        response.end(Buffer.concat([png, Buffer.from(request.url ?? "")]));
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const provider = new MockProvider(["Image 1: red. Image 2: also red. Both are red squares."]);
+    const processor = new ImageProcessor(new GroqHandler([provider], { identity: { id: "1000", name: "SmolBot" } }));
+
+    try {
+        const analysis = await processor.performMultiImageAnalysis([
+            { label: "Image 1", image: { url: `${base}/first.png`, contentType: "image/png" } },
+            { label: "Image 2", image: { url: `${base}/second.png`, contentType: "image/png" } }
+        ]);
+
+        assert.equal(analysis, "Image 1: red. Image 2: also red. Both are red squares.");
+        const requests = provider.getRequests();
+        assert.equal(requests.length, 1);
+        const content = requests[0].messages[0].content;
+        assert.ok(Array.isArray(content));
+        assert.equal(content.filter(part => part.type === "image_url").length, 2);
+    } finally {
+        await new Promise(resolve => server.close(resolve));
+    }
+});
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { setTimeout as sleep } from "timers/promises";
+import { Message } from "discord.js";
+import { MentionCoalescer } from "../src/handlers/message/MentionCoalescer";
+
+function mention(id: string, channelId = "channel"): Message {
+    return { id, channelId } as unknown as Message;
+}
+
+test("answers mentions arriving close together in a channel as one burst", async () => {
+    const bursts: string[][] = [];
+    const coalescer = new MentionCoalescer({ windowMs: 20, maxWaitMs: 200 }, messages => {
+        bursts.push(messages.map(message => message.id));
+    });
+
+    coalescer.add(mention("1"));
+    coalescer.add(mention("2"));
+    coalescer.add(mention("3", "other"));
+    await sleep(50);
+
+    assert.deepEqual(bursts.sort(), [["1", "2"], ["3"]]);
+});
+
+test("leaves deleted mentions out of their burst", async () => {
+    const bursts: string[][] = [];
+    const coalescer = new MentionCoalescer({ windowMs: 20, maxWaitMs: 200 }, messages => {
+        bursts.push(messages.map(message => message.id));
+    });
+
+    coalescer.add(mention("1"));
+    coalescer.add(mention("2"));
+    assert.equal(coalescer.remove("1", "channel"), true);
+    coalescer.add(mention("3", "other"));
+    assert.equal(coalescer.remove("3", "other"), true);
+    await sleep(50);
+
+    assert.deepEqual(bursts, [["2"]]);
+});
+
+test("answers each mention at once when coalescing is off", () => {
+    const bursts: string[][] = [];
+    const coalescer = new MentionCoalescer({ windowMs: 0, maxWaitMs: 0 }, messages => {
+        bursts.push(messages.map(message => message.id));
+    });
+
+    coalescer.add(mention("1"));
+    coalescer.add(mention("2"));
+
+    assert.deepEqual(bursts, [["1"], ["2"]]);
+});
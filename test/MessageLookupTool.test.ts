@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { ChannelCacheManager } from "../src/handlers/cache/ChannelCacheManager";
+import { MessageLookupTool } from "../src/tools/builtin/MessageLookupTool";
+import { CachedMessage } from "../src/types";
+
+function message(id: string, content = `message ${id}`): CachedMessage {
+    return { id, content, authorId: "42", authorName: "fren", timestamp: new Date(), images: [] };
+}
+
+async function lookup(cacheManager: ChannelCacheManager, messageId: string, channelId: string): Promise<string> {
+    return new MessageLookupTool(cacheManager).execute({ messageId }, { channelId, messageId: "0" });
+}
+
+test("finds messages from public channels anywhere", async () => {
+    const cacheManager = new ChannelCacheManager({ maxSize: 10 });
+    await cacheManager.addMessage("general", message("1", "gm"));
+
+    assert.match(await lookup(cacheManager, "1", "other"), /gm$/);
+});
+
+test("keeps private thread messages, including ones cached before the thread was marked, inside the thread", async () => {
+    const cacheManager = new ChannelCacheManager({ maxSize: 1 });
+    await cacheManager.addMessage("thread", message("1", "secret plans"));
+    await cacheManager.addMessage("thread", message("2", "more secret plans"));
+    cacheManager.markPrivate("thread");
+
+    // Message 1 was evicted to the archive, message 2 is in the live cache
+    assert.equal(await lookup(cacheManager, "1", "general"), "No message with ID 1 is available");
+    assert.equal(await lookup(cacheManager, "2", "general"), "No message with ID 2 is available");
+    assert.match(await lookup(cacheManager, "2", "thread"), /more secret plans$/);
+});
+
+test("keeps archived DM messages private after the DM's cache is cleared", async () => {
+    const cacheManager = new ChannelCacheManager({ maxSize: 1 });
+    cacheManager.markPrivate("dm");
+    await cacheManager.addMessage("dm", message("1", "my password"));
+    await cacheManager.addMessage("dm", message("2", "oops"));
+    cacheManager.clearCache("dm");
+
+    assert.equal(await lookup(cacheManager, "1", "general"), "No message with ID 1 is available");
+    assert.match(await lookup(cacheManager, "1", "dm"), /my password$/);
+});
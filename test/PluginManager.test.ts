@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { PluginManager } from "../src/plugins/PluginManager";
+
+test("afterGenerate hooks see each other's changes in registration order", async () => {
+    const manager = new PluginManager();
+    manager.register({ name: "shout", afterGenerate: ({ content }) => content.toUpperCase() });
+    manager.register({ name: "sign", afterGenerate: ({ content }) => `${content} - smol` });
+
+    assert.equal(await manager.runAfterGenerate({ channelId: "1", content: "gm" }), "GM - smol");
+});
+
+test("a null or empty afterGenerate result vetoes the reply", async () => {
+    const vetoing = new PluginManager();
+    vetoing.register({ name: "veto", afterGenerate: () => null });
+    const emptying = new PluginManager();
+    emptying.register({ name: "empty", afterGenerate: () => "  " });
+
+    assert.equal(await vetoing.runAfterGenerate({ channelId: "1", content: "gm" }), null);
+    assert.equal(await emptying.runAfterGenerate({ channelId: "1", content: "gm" }), null);
+});
+
+test("a failing hook leaves the reply to the other plugins", async () => {
+    const manager = new PluginManager();
+    manager.register({ name: "broken", afterGenerate: () => { throw new Error("boom"); } });
+    manager.register({ name: "sign", afterGenerate: ({ content }) => `${content} - smol` });
+
+    assert.equal(await manager.runAfterGenerate({ channelId: "1", content: "gm" }), "gm - smol");
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { ToolRegistry } from "../src/tools/ToolRegistry";
+import { RandomPickTool } from "../src/tools/builtin/RandomPickTool";
+
+const context = { channelId: "1", messageId: "2" };
+
+test("runs a registered tool with validated arguments", async () => {
+    const registry = new ToolRegistry();
+    registry.register(new RandomPickTool());
+
+    const result = await registry.execute(
+        { id: "call", name: "random_pick", arguments: JSON.stringify({ options: ["tea", "tea"] }) },
+        context
+    );
+
+    assert.equal(result, "Picked: tea");
+});
+
+test("returns argument and lookup failures as text for the model", async () => {
+    const registry = new ToolRegistry();
+    registry.register(new RandomPickTool());
+
+    assert.match(await registry.execute({ id: "call", name: "random_pick", arguments: "{}" }, context), /^Error: /);
+    assert.equal(
+        await registry.execute({ id: "call", name: "missing", arguments: "{}" }, context),
+        "Error: unknown tool \"missing\""
+    );
+});
+
+test("stops waiting on a tool once the reply is cancelled", async () => {
+    const registry = new ToolRegistry();
+    let toolSignal: AbortSignal | undefined;
+    registry.register({
+        name: "slow",
+        description: "Never finishes on its own",
+        parameters: { type: "object", properties: {} },
+        execute: (_args, toolContext) => {
+            toolSignal = toolContext.signal;
+            return new Promise<string>(() => undefined);
+        }
+    });
+    const controller = new AbortController();
+
+    const result = registry.execute({ id: "call", name: "slow", arguments: "{}" }, { ...context, signal: controller.signal });
+    controller.abort(new Error("superseded"));
+
+    await assert.rejects(result, { message: "superseded" });
+    assert.equal(toolSignal, controller.signal);
+});
@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { createSerialWriter } from "../src/utils/files";
+
+test("runs writes one at a time, and a failed write doesn't stop the next", async () => {
+    const writer = createSerialWriter();
+    const events: string[] = [];
+    let finishFirst!: () => void;
+
+    const first = writer.write(() => new Promise<void>(resolve => {
+        events.push("first started");
+        finishFirst = () => {
+            events.push("first finished");
+            resolve();
+        };
+    }));
+    const second = writer.write(async () => {
+        events.push("second started");
+        throw new Error("disk full");
+    });
+    const third = writer.write(async () => {
+        events.push("third started");
+    });
+
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(events, ["first started"]);
+
+    finishFirst();
+    await first;
+    await assert.rejects(second, { message: "disk full" });
+    await third;
+    await writer.idle();
+    assert.deepEqual(events, ["first started", "first finished", "second started", "third started"]);
+});
@@ -0,0 +1,235 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { GroqHandler } from "../src/groqApi";
+import {
+    CircuitBreakers,
+    ContextLengthError,
+    MockProvider,
+    ProviderModels,
+    QuotaExceededError,
+    RateLimitError,
+    ServerError
+} from "../src/providers";
+import { UsageTracker } from "../src/handlers/usage/UsageTracker";
+import { ToolRegistry } from "../src/tools/ToolRegistry";
+import { RandomPickTool } from "../src/tools/builtin/RandomPickTool";
+
+const identity = { id: "1000", name: "SmolBot" };
+
+/**
+ * Models with a distinct name at each fallback level
+ */
+function chain(prefix: string, maxRetries = 0): ProviderModels {
+    const config = {
+        primary: `${prefix}-primary`,
+        fallback: `${prefix}-fallback`,
+        instantFallback: `${prefix}-instant`,
+        maxRetries
+    };
+    return { chat: config, vision: config };
+}
+
+function models(provider: MockProvider): string[] {
+    return provider.getRequests().map(request => request.model);
+}
+
+test("falls back through a provider's models, then to the next provider", async () => {
+    const first = new MockProvider([
+        new RateLimitError("slow down", "first"),
+        new ContextLengthError("too long", "first"),
+        new ServerError("down", "first")
+    ], "first", chain("first"));
+    const second = new MockProvider(["hello"], "second", chain("second"));
+    const handler = new GroqHandler([first, second], { identity });
+
+    const response = await handler.generateResponse({}, "hi");
+
+    assert.equal(response, "hello");
+    assert.deepEqual(models(first), ["first-primary", "first-fallback", "first-instant"]);
+    assert.deepEqual(models(second), ["second-primary"]);
+});
+
+test("retries transient failures on the same model", async () => {
+    const provider = new MockProvider([new ServerError("down", "mock"), "recovered"], "mock", chain("mock", 1));
+    const handler = new GroqHandler([provider], { identity });
+
+    assert.equal(await handler.generateResponse({}, "hi"), "recovered");
+    assert.deepEqual(models(provider), ["mock-primary", "mock-primary"]);
+});
+
+test("skips models whose circuit is open until their cooldown ends", async () => {
+    const breakers = new CircuitBreakers();
+    const provider = new MockProvider([
+        new RateLimitError("slow down", "mock", 60000),
+        "from fallback",
+        "from fallback again"
+    ], "mock", chain("mock"));
+    const handler = new GroqHandler([provider], { identity, circuitBreakers: breakers });
+
+    await handler.generateResponse({}, "hi");
+    await handler.generateResponse({}, "hi");
+
+    assert.deepEqual(models(provider), ["mock-primary", "mock-fallback", "mock-fallback"]);
+    assert.equal(handler.getModelHealth()[0]?.state, "open");
+});
+
+test("throws the last error when every model fails", async () => {
+    const provider = new MockProvider([
+        new RateLimitError("slow down", "mock"),
+        new RateLimitError("slow down", "mock"),
+        new RateLimitError("still slow", "mock")
+    ], "mock", chain("mock"));
+    const handler = new GroqHandler([provider], { identity });
+
+    await assert.rejects(handler.generateResponse({}, "hi"), { kind: "rate_limit", message: "still slow" });
+});
+
+test("skips vision models that take fewer images than the request", async () => {
+    const small = new MockProvider([], "small", chain("small"));
+    const large = new MockProvider(["both images"], "large", {
+        ...chain("large"),
+        imagesPerRequest: { "large-primary": 4 }
+    });
+    const handler = new GroqHandler([small, large], { identity });
+
+    const analysis = await handler.performMultiImageAnalysis([
+        { label: "Image 1", url: "https://example.com/1.png" },
+        { label: "Image 2", url: "https://example.com/2.png" }
+    ]);
+
+    assert.equal(analysis, "both images");
+    assert.equal(small.getRequests().length, 0);
+    assert.equal(handler.getMaxImagesPerRequest(), 4);
+});
+
+test("builds the context for each model's own context window", async () => {
+    const large = new MockProvider([
+        new RateLimitError("slow down", "large"),
+        new RateLimitError("slow down", "large"),
+        new RateLimitError("slow down", "large")
+    ], "large", {
+        ...chain("large"),
+        contextWindows: { "large-primary": 32768, "large-fallback": 32768, "large-instant": 32768 }
+    });
+    const small = new MockProvider(["small reply"], "small", {
+        ...chain("small"),
+        contextWindows: { "small-primary": 2048 }
+    });
+    const handler = new GroqHandler([large, small], { identity });
+
+    const budgets: number[] = [];
+    await handler.generateResponse({}, async tokenBudget => {
+        budgets.push(tokenBudget);
+        return `context for ${tokenBudget}`;
+    });
+
+    // Models sharing a window share one build
+    assert.equal(budgets.length, 2);
+    assert.ok(budgets[0] > 2048 && budgets[1] < 2048);
+    const lastRequest = small.getRequests()[0];
+    assert.match(String(lastRequest.messages[1].content), new RegExp(`context for ${budgets[1]}`));
+});
+
+test("stops before sending anything once the signal is aborted", async () => {
+    const provider = new MockProvider(["never"], "mock", chain("mock"));
+    const handler = new GroqHandler([provider], { identity });
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(
+        handler.generateResponse({}, "hi", undefined, { signal: controller.signal }),
+        { kind: "cancelled" }
+    );
+    assert.equal(provider.getRequests().length, 0);
+});
+
+test("streams the scripted response", async () => {
+    const provider = new MockProvider(["one two three"], "mock", chain("mock"));
+    const handler = new GroqHandler([provider], { identity });
+
+    const updates: string[] = [];
+    for await (const text of handler.generateResponseStream({}, "hi")) {
+        updates.push(text);
+    }
+
+    assert.equal(updates[updates.length - 1], "one two three");
+});
+
+test("streams only the final round's text when the model calls tools first", async () => {
+    const provider = new MockProvider([
+        { content: "let me check ", toolCalls: [{ id: "call", name: "random_pick", arguments: JSON.stringify({ options: ["tea"] }) }] },
+        "tea it is"
+    ], "mock", chain("mock"));
+    const handler = new GroqHandler([provider], { identity });
+    const registry = new ToolRegistry();
+    registry.register(new RandomPickTool());
+    handler.setToolRegistry(registry);
+
+    const updates: string[] = [];
+    for await (const text of handler.generateResponseStream({}, "hi", { channelId: "1", messageId: "2" })) {
+        updates.push(text);
+    }
+
+    assert.ok(updates.includes(""));
+    assert.equal(updates[updates.length - 1], "tea it is");
+});
+
+test("fails a stream that breaks off partway instead of keeping the partial reply", async () => {
+    const provider = new MockProvider([
+        { content: "half a sentence ", error: new ServerError("connection reset", "mock") }
+    ], "mock", chain("mock"));
+    const handler = new GroqHandler([provider], { identity });
+
+    await assert.rejects(async () => {
+        for await (const _text of handler.generateResponseStream({}, "hi")) {
+            // Partial text arrives before the failure
+        }
+    }, { kind: "server" });
+});
+
+test("counts a stream that breaks off partway against the model", async () => {
+    const provider = new MockProvider([
+        { content: "half a sentence ", error: new ServerError("connection reset", "mock") }
+    ], "mock", chain("mock"));
+    const handler = new GroqHandler([provider], { identity });
+
+    await assert.rejects(async () => {
+        for await (const _text of handler.generateResponseStream({}, "hi")) {
+            // The first delta alone doesn't make the stream a success
+        }
+    });
+
+    assert.deepEqual(
+        handler.getModelHealth().map(health => [health.model, health.consecutiveFailures]),
+        [["mock-primary", 1]]
+    );
+});
+
+test("uses only the instant model as the usage budget runs low, and refuses once it is spent", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "smolbot-"));
+    const tracker = new UsageTracker({
+        filePath: path.join(directory, "usage.json"),
+        budgets: { user: { dailyTokens: 100 } }
+    });
+    await tracker.load();
+
+    const provider = new MockProvider(["instant reply"], "mock", chain("mock"));
+    const handler = new GroqHandler([provider], { identity });
+    handler.setUsageTracker(tracker);
+    const usage = { userId: "42" };
+
+    tracker.record("generateResponse", "mock", "mock-primary", { promptTokens: 90, completionTokens: 0, totalTokens: 90 }, usage);
+    assert.equal(await handler.generateResponse({}, "hi", undefined, { usage }), "instant reply");
+    assert.deepEqual(models(provider), ["mock-instant"]);
+
+    tracker.record("generateResponse", "mock", "mock-instant", { promptTokens: 10, completionTokens: 0, totalTokens: 10 }, usage);
+    await assert.rejects(handler.generateResponse({}, "hi", undefined, { usage }), QuotaExceededError);
+    assert.equal(provider.getRequests().length, 1);
+    // Other users keep the full model chain
+    assert.equal(handler.getUsageLevel({ userId: "7" }), "normal");
+
+    await fs.rm(directory, { recursive: true, force: true });
+});